@@ -0,0 +1,44 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import {
+  VARIANTS,
+  getVariant,
+  getVariantHref,
+} from "../../../_variants/registry";
+
+interface VariantPageProps {
+  params: Promise<{ type: string; variant: string; slug?: string[] }>;
+}
+
+// Only registered variants (and their declared sub-pages) exist
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return VARIANTS.flatMap((variant) =>
+    ["", ...(variant.pages ?? [])].map((page) => ({
+      type: variant.type,
+      variant: variant.slug,
+      slug: page ? page.split("/") : [],
+    })),
+  );
+}
+
+export async function generateMetadata({
+  params,
+}: VariantPageProps): Promise<Metadata> {
+  const { type, variant: slug } = await params;
+  const variant = getVariant(type, slug);
+  if (!variant) return {};
+
+  return { title: variant.title, description: variant.description };
+}
+
+export default async function VariantPage({ params }: VariantPageProps) {
+  const { type, variant: slug } = await params;
+  const variant = getVariant(type, slug);
+  if (!variant) notFound();
+
+  const Demo = variant.component;
+  return <Demo basePath={getVariantHref(variant)} />;
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import Link from "next/link";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import {
+  useNavbar,
+  type NavbarConfig,
+  type NavLink,
+} from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+const navConfig: NavbarConfig = {
+  enableScrollSpy: true,
+  mobileBreakpoint: "md",
+};
+
+const navLinks: NavLink[] = [
+  { id: "top", label: "Top", href: "#top" },
+  { id: "getters", label: "Prop getters", href: "#getters" },
+  { id: "state", label: "State", href: "#state" },
+];
+
+// Markup written from scratch; all behavior comes from useNavbar
+const HeadlessDemo: React.FC<VariantDemoProps> = () => {
+  const navbarEvents = useNavbarAnalytics("singlepage");
+  const {
+    isOpen,
+    isScrolled,
+    activeLink,
+    getNavProps,
+    getToggleProps,
+    getPanelProps,
+    getBackdropProps,
+    getCloseProps,
+    getLinkProps,
+    getBreakpointProps,
+    breakpointCss,
+  } = useNavbar(navConfig, navLinks, navbarEvents);
+
+  const linkList = (className: string) => (
+    <ul className={className}>
+      {navLinks.map((link) => (
+        <li key={link.id}>
+          <a
+            {...getLinkProps(link)}
+            className="underline-offset-8 hover:underline data-active:font-bold data-active:underline"
+          >
+            {link.label}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="min-h-screen bg-stone-100 font-mono">
+      {/* Media rules for getBreakpointProps, part of the server HTML */}
+      <style>{breakpointCss}</style>
+
+      <nav
+        {...getNavProps()}
+        className={`fixed inset-x-0 top-0 z-40 border-b-2 border-stone-900 px-6 py-4 ${
+          isScrolled ? "bg-amber-300" : "bg-stone-100"
+        }`}
+      >
+        <div className="mx-auto flex max-w-4xl items-center justify-between">
+          <Link href="/" className="font-bold">
+            /headless
+          </Link>
+          <div {...getBreakpointProps("desktop")}>{linkList("flex gap-6")}</div>
+          <button
+            {...getToggleProps()}
+            {...getBreakpointProps("mobile")}
+            className="border-2 border-stone-900 px-3 py-1"
+          >
+            menu
+          </button>
+        </div>
+      </nav>
+
+      {isOpen && (
+        <>
+          <div
+            {...getBackdropProps()}
+            className="fixed inset-0 z-50 bg-stone-900/60"
+          />
+          <div
+            {...getPanelProps()}
+            className="fixed inset-y-0 right-0 z-50 w-72 border-l-2 border-stone-900 bg-amber-300 p-6"
+          >
+            <button
+              {...getCloseProps()}
+              className="mb-8 border-2 border-stone-900 px-3 py-1"
+            >
+              close
+            </button>
+            {linkList("space-y-4 text-lg")}
+          </div>
+        </>
+      )}
+
+      <section
+        id="top"
+        className="flex min-h-screen items-center justify-center px-4"
+      >
+        <div className="max-w-2xl">
+          <h1 className="mb-4 text-4xl font-bold">Headless navbar</h1>
+          <p className="text-lg">
+            No Navbar component here: this header is plain markup driven by{" "}
+            <code>useNavbar(config, links)</code>. Active section:{" "}
+            <strong>{activeLink || "none"}</strong>.
+          </p>
+        </div>
+      </section>
+
+      <section
+        id="getters"
+        className="flex min-h-screen items-center justify-center bg-white px-4"
+      >
+        <div className="max-w-2xl">
+          <h2 className="mb-4 text-3xl font-bold">Prop getters</h2>
+          <p className="text-lg">
+            Spread <code>getToggleProps()</code>, <code>getPanelProps()</code>,{" "}
+            <code>getBackdropProps()</code> and <code>getLinkProps(link)</code>{" "}
+            onto your own elements to get the ARIA wiring, focus trap, Escape
+            handling and scroll-spy aware link clicks.{" "}
+            <code>getBreakpointProps(&quot;desktop&quot;)</code> and{" "}
+            <code>breakpointCss</code> show the bar or the menu button from the
+            first paint.
+          </p>
+        </div>
+      </section>
+
+      <section
+        id="state"
+        className="flex min-h-screen items-center justify-center px-4"
+      >
+        <div className="max-w-2xl">
+          <h2 className="mb-4 text-3xl font-bold">State</h2>
+          <p className="text-lg">
+            The hook also returns <code>isOpen</code>, <code>isScrolled</code>,{" "}
+            <code>isHidden</code> and <code>activeLink</code> for styling
+            however you like. <code>isDesktop</code> is only known after
+            hydration, so it is meant for behavior, not layout.
+          </p>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default HeadlessDemo;
@@ -0,0 +1,90 @@
+"use client";
+
+import Link from "next/link";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import { Navbar, type NavbarConfig, type NavLink } from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+const LeftDrawerDemo: React.FC<VariantDemoProps> = () => {
+  const navbarEvents = useNavbarAnalytics("singlepage");
+  const navConfig: NavbarConfig = {
+    side: "left",
+    width: { base: "85vw", sm: "24rem" },
+    initialBg: "bg-transparent",
+    scrolledBg: "bg-nav-surface/95 shadow-md",
+    enableScrollSpy: true,
+    mobileBreakpoint: "lg", // Show hamburger below 1024px
+    swipeToOpen: true, // Swipe in from the left edge on touch screens
+    drawerAnimation: "push", // The bar and <main data-nav-push> move along
+    responsive: {
+      md: { scrollThreshold: 80 }, // Tablets keep the transparent bar longer
+    },
+  };
+
+  const navLinks: NavLink[] = [
+    { id: "intro", label: "Intro", href: "#intro" },
+    { id: "features", label: "Features", href: "#features" },
+    { id: "faq", label: "FAQ", href: "#faq" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar
+        {...navbarEvents}
+        config={navConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-emerald-700">
+            Drawer
+          </Link>
+        }
+        links={navLinks}
+      />
+
+      <main data-nav-push="">
+        <section
+          id="intro"
+          className="flex min-h-screen items-center justify-center bg-linear-to-br from-emerald-500 to-teal-600"
+        >
+          <div className="px-4 text-center text-white">
+            <h1 className="mb-4 text-5xl font-bold">Left drawer</h1>
+            <p className="text-xl">
+              Below 1024px the menu slides in from the left edge, 85vw wide on
+              phones and 24rem from the sm breakpoint up, pushing the page
+              aside.
+            </p>
+          </div>
+        </section>
+
+        <section
+          id="features"
+          className="flex min-h-screen items-center justify-center bg-white"
+        >
+          <div className="max-w-2xl px-4">
+            <h2 className="mb-6 text-4xl font-bold">Features</h2>
+            <p className="text-lg text-gray-600">
+              The drawer locks body scroll, traps focus and closes on Escape,
+              backdrop click, link click or a swipe back to the left. On touch
+              screens it also opens with a swipe in from the left edge.
+            </p>
+          </div>
+        </section>
+
+        <section
+          id="faq"
+          className="flex min-h-screen items-center justify-center bg-gray-100"
+        >
+          <div className="max-w-2xl px-4">
+            <h2 className="mb-6 text-4xl font-bold">FAQ</h2>
+            <p className="text-lg text-gray-600">
+              Change <code>side</code> to &quot;right&quot;, &quot;top&quot; or
+              &quot;bottom&quot; to slide from another edge.
+            </p>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default LeftDrawerDemo;
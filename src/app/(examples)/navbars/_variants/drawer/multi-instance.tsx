@@ -0,0 +1,105 @@
+"use client";
+
+import Link from "next/link";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import { Navbar, type NavbarConfig, type NavLink } from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+const SECTIONS: Record<string, { title: string; body: string }> = {
+  "two-navbars": {
+    title: "Two navbars, one page",
+    body: "A site header and a docs sidebar navbar share this page. Open either drawer: the other one closes, and each has its own generated ids, so aria-controls and dropdown panels never point at the wrong element.",
+  },
+  portals: {
+    title: "Portals",
+    body: "The docs navbar sits in a wrapper with its own stacking context below the header. Its drawer and backdrop are portaled to <body>, so they still cover the header instead of being trapped underneath it.",
+  },
+  layers: {
+    title: "Layers",
+    body: "zIndex sets the bar, overlay and palette layers per navbar. Here the docs bar stays under the header, while its overlay goes above every other layer.",
+  },
+  containers: {
+    title: "Containers",
+    body: 'portalContainer takes any selector; "" renders the drawer inline next to the bar as before.',
+  },
+};
+
+const MultiInstanceDemo: React.FC<VariantDemoProps> = ({ basePath }) => {
+  const navbarEvents = useNavbarAnalytics("multipage");
+  const docsEvents = useNavbarAnalytics("singlepage");
+
+  const headerConfig: NavbarConfig = {
+    mode: "multipage",
+    side: "right",
+    initialBg: "bg-nav-surface",
+    scrolledBg: "bg-nav-surface shadow-md",
+    mobileBreakpoint: "md",
+  };
+
+  const headerLinks: NavLink[] = [
+    { id: "demo", label: "Demo", href: basePath },
+    { id: "gallery", label: "Gallery", href: "/" },
+    { id: "playground", label: "Playground", href: "/playground" },
+  ];
+
+  const docsConfig: NavbarConfig = {
+    side: "left",
+    width: { base: "85vw", sm: "20rem" },
+    initialBg: "bg-gray-100",
+    scrolledBg: "bg-gray-100 shadow-sm",
+    enableScrollSpy: true,
+    scrollSpyOffset: 144, // Both bars
+    mobileBreakpoint: "2xl", // Drawer on all but the widest screens
+    ariaLabel: "Docs navigation",
+    classNames: { nav: "top-18!" }, // Below the header
+    portalContainer: "body",
+    zIndex: { bar: 30, overlay: 70 },
+  };
+
+  const docsLinks: NavLink[] = Object.entries(SECTIONS).map(
+    ([id, section]) => ({ id, label: section.title, href: `#${id}` }),
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar
+        {...navbarEvents}
+        config={headerConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-rose-700">
+            Site
+          </Link>
+        }
+        links={headerLinks}
+      />
+
+      {/* Own stacking context under the header's z-40 */}
+      <div className="relative z-10">
+        <Navbar
+          {...docsEvents}
+          config={docsConfig}
+          logo={<span className="text-lg font-semibold">Docs</span>}
+          links={docsLinks}
+        />
+      </div>
+
+      {Object.entries(SECTIONS).map(([id, section], index) => (
+        <section
+          key={id}
+          id={id}
+          className={`flex min-h-screen items-center justify-center pt-36 ${
+            index % 2 ? "bg-gray-100" : "bg-white"
+          }`}
+        >
+          <div className="max-w-2xl px-4">
+            <h2 className="mb-6 text-4xl font-bold">{section.title}</h2>
+            <p className="text-lg text-gray-600">{section.body}</p>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default MultiInstanceDemo;
@@ -0,0 +1,126 @@
+"use client";
+
+import { BookOpen } from "lucide-react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import { Navbar, type NavbarConfig, type NavLink } from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+// Demo copy for each sub-route, keyed by path relative to basePath
+const PAGES: Record<string, { title: string; body: string }> = {
+  "": {
+    title: "Home",
+    body: "Each link is a real route rendered through next/link. The active link comes from usePathname(), so it stays correct on back/forward navigation too. Press Cmd/Ctrl+K to jump to any page by name or keyword.",
+  },
+  about: {
+    title: "About",
+    body: "Open the mobile menu, then use the browser back button: the drawer closes on every route change, not only on link clicks.",
+  },
+  pricing: {
+    title: "Pricing",
+    body: "Links are prefetched by next/link, so navigating between pages is instant.",
+  },
+  docs: {
+    title: "Docs",
+    body: "The Docs link uses prefix matching, so it stays active on every page below /docs.",
+  },
+  "docs/getting-started": {
+    title: "Getting started",
+    body: "Nested links inherit active state: the Docs dropdown is highlighted while you are here.",
+  },
+  "docs/api": {
+    title: "API reference",
+    body: 'Exact matching is the default; opt into prefix matching per link with match: "prefix". The "Changelog" entry is disabled, the API link carries a badge and Next.js opens in a new tab; Ctrl/Cmd+click on any link does too.',
+  },
+};
+
+const AppRouterDemo: React.FC<VariantDemoProps> = ({ basePath }) => {
+  const navbarEvents = useNavbarAnalytics("multipage");
+  const pathname = usePathname();
+
+  const navConfig: NavbarConfig = {
+    mode: "multipage",
+    side: "right",
+    initialBg: "bg-nav-surface",
+    scrolledBg: "bg-nav-surface/95 shadow-md",
+    closeOnRouteChange: true,
+    mobileBreakpoint: "md",
+    enableCommandPalette: true, // Cmd/Ctrl+K searches every route below
+    drawerAnimation: "reveal", // Circle grows out of the hamburger button
+  };
+
+  const navLinks: NavLink[] = [
+    { id: "home", label: "Home", href: basePath },
+    { id: "about", label: "About", href: `${basePath}/about` },
+    {
+      id: "pricing",
+      label: "Pricing",
+      href: `${basePath}/pricing`,
+      keywords: ["plans", "billing", "cost"],
+    },
+    {
+      id: "docs",
+      label: "Docs",
+      href: `${basePath}/docs`,
+      match: "prefix",
+      children: [
+        { id: "docs-index", label: "Overview", href: `${basePath}/docs` },
+        {
+          id: "getting-started",
+          label: "Getting started",
+          href: `${basePath}/docs/getting-started`,
+          keywords: ["install", "setup", "quickstart"],
+        },
+        {
+          id: "api",
+          label: "API reference",
+          href: `${basePath}/docs/api`,
+          keywords: ["props", "config", "types"],
+          badge: "New",
+        },
+        {
+          id: "changelog",
+          label: "Changelog",
+          href: `${basePath}/docs/changelog`,
+          disabled: true, // Coming soon
+        },
+      ],
+    },
+    {
+      id: "nextjs-docs",
+      label: "Next.js",
+      href: "https://nextjs.org/docs",
+      icon: BookOpen,
+      external: true,
+      visible: ({ isDesktop }) => isDesktop, // Bar only, not the drawer
+    },
+  ];
+
+  const page = PAGES[pathname.slice(basePath.length + 1)] ?? PAGES[""];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar
+        {...navbarEvents}
+        config={navConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-sky-700">
+            MyBrand
+          </Link>
+        }
+        links={navLinks}
+      />
+
+      <section className="flex min-h-screen items-center justify-center">
+        <div className="max-w-2xl px-4">
+          <h1 className="mb-6 text-4xl font-bold">{page?.title}</h1>
+          <p className="text-lg text-gray-600">{page?.body}</p>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default AppRouterDemo;
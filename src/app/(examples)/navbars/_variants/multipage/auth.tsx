@@ -0,0 +1,261 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  type ReactNode,
+} from "react";
+import { LogOut, Settings, User } from "lucide-react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import {
+  Navbar,
+  type NavbarConfig,
+  type NavLink,
+  type NavUser,
+  type UserMenuItem,
+} from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+// ============================================================================
+// MOCK SESSION
+// ============================================================================
+
+type MockRole = "member" | "admin";
+
+interface MockSession {
+  user: NavUser | null;
+  signIn: (role: MockRole) => void;
+  signOut: () => void;
+}
+
+const MOCK_USERS: Record<MockRole, NavUser> = {
+  member: {
+    name: "Ada Lovelace",
+    email: "ada@example.com",
+    roles: ["member"],
+  },
+  admin: {
+    name: "Grace Hopper",
+    email: "grace@example.com",
+    roles: ["member", "admin"],
+    permissions: ["billing:read"],
+  },
+};
+
+// Survives the demo's route changes (each sub-page remounts the demo)
+const STORAGE_KEY = "navbar-demo:session";
+
+const SessionContext = createContext<MockSession | null>(null);
+
+// Stand-in for a real auth provider: the signed-in role lives in
+// sessionStorage, no network involved
+const MockSessionProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [role, setRole] = useState<MockRole | null>(null);
+
+  useEffect(() => {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored === "member" || stored === "admin") setRole(stored);
+  }, []);
+
+  const session: MockSession = {
+    user: role ? MOCK_USERS[role] : null,
+    signIn: (next) => {
+      sessionStorage.setItem(STORAGE_KEY, next);
+      setRole(next);
+    },
+    signOut: () => {
+      sessionStorage.removeItem(STORAGE_KEY);
+      setRole(null);
+    },
+  };
+
+  return (
+    <SessionContext.Provider value={session}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+const useMockSession = () => {
+  const session = useContext(SessionContext);
+  if (!session) throw new Error("useMockSession needs MockSessionProvider");
+  return session;
+};
+
+// ============================================================================
+// DEMO
+// ============================================================================
+
+const PAGES: Record<string, { title: string; body: string }> = {
+  "": {
+    title: "Auth-aware header",
+    body: "Sign in with the switcher in the corner. Links declare roles and permissions, so the bar and drawer only show what the current user may open, and the avatar menu appears once you are signed in.",
+  },
+  pricing: {
+    title: "Pricing",
+    body: "This link uses a visible predicate that checks the user: it is only shown while signed out.",
+  },
+  projects: {
+    title: "Projects",
+    body: 'Requires the "member" role. Every signed-in demo user has it.',
+  },
+  admin: {
+    title: "Admin",
+    body: 'Requires the "admin" role: sign in as the admin to see it in the bar.',
+  },
+  billing: {
+    title: "Billing",
+    body: 'Requires the "billing:read" permission, which only the admin holds.',
+  },
+  profile: {
+    title: "Profile",
+    body: "User menu links are regular NavLinks: they route, highlight and close the drawer like any other link.",
+  },
+  settings: {
+    title: "Settings",
+    body: "On mobile the user menu becomes an account section at the bottom of the drawer.",
+  },
+};
+
+const AuthHeader: React.FC<VariantDemoProps> = ({ basePath }) => {
+  const navbarEvents = useNavbarAnalytics("multipage");
+  const pathname = usePathname();
+  const { user, signIn, signOut } = useMockSession();
+
+  const navConfig: NavbarConfig = {
+    mode: "multipage",
+    initialBg: "bg-nav-surface",
+    scrolledBg: "bg-nav-surface/95 shadow-md",
+    mobileBreakpoint: "md",
+  };
+
+  const navLinks: NavLink[] = [
+    { id: "home", label: "Home", href: basePath },
+    {
+      id: "pricing",
+      label: "Pricing",
+      href: `${basePath}/pricing`,
+      visible: (context) => !context.user, // Signed out only
+    },
+    {
+      id: "projects",
+      label: "Projects",
+      href: `${basePath}/projects`,
+      roles: ["member"],
+    },
+    {
+      id: "admin",
+      label: "Admin",
+      href: `${basePath}/admin`,
+      roles: ["admin"],
+      children: [
+        { id: "admin-index", label: "Overview", href: `${basePath}/admin` },
+        {
+          id: "billing",
+          label: "Billing",
+          href: `${basePath}/billing`,
+          permissions: ["billing:read"],
+        },
+      ],
+    },
+  ];
+
+  const userMenu: UserMenuItem[] = [
+    {
+      id: "profile",
+      label: "Profile",
+      href: `${basePath}/profile`,
+      icon: User,
+    },
+    {
+      id: "settings",
+      label: "Settings",
+      href: `${basePath}/settings`,
+      icon: Settings,
+    },
+    { id: "sign-out", label: "Sign out", icon: LogOut, onSelect: signOut },
+  ];
+
+  const page = PAGES[pathname.slice(basePath.length + 1)] ?? PAGES[""];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar
+        {...navbarEvents}
+        config={navConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-indigo-700">
+            Accounts
+          </Link>
+        }
+        links={navLinks}
+        user={user}
+        userMenu={userMenu}
+        actions={
+          !user && (
+            <button
+              type="button"
+              onClick={() => signIn("member")}
+              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-400 focus:outline-none"
+            >
+              Sign in
+            </button>
+          )
+        }
+      />
+
+      {/* Mock session switcher */}
+      <div
+        role="group"
+        aria-label="Mock session"
+        className="fixed right-4 bottom-4 z-30 flex gap-1 rounded-full bg-white p-1 text-sm shadow-lg ring-1 ring-gray-200"
+      >
+        {(["signed-out", "member", "admin"] as const).map((option) => {
+          const isCurrent =
+            option === "signed-out"
+              ? !user
+              : user?.name === MOCK_USERS[option].name;
+          return (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={isCurrent}
+              onClick={() =>
+                option === "signed-out" ? signOut() : signIn(option)
+              }
+              className={`rounded-full px-3 py-1.5 focus:ring-2 focus:ring-indigo-500 focus:outline-none ${
+                isCurrent
+                  ? "bg-indigo-600 text-white"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {option === "signed-out" ? "Signed out" : option}
+            </button>
+          );
+        })}
+      </div>
+
+      <section className="flex min-h-screen items-center justify-center">
+        <div className="max-w-2xl px-4">
+          <h1 className="mb-6 text-4xl font-bold">{page?.title}</h1>
+          <p className="text-lg text-gray-600">{page?.body}</p>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+const AuthNavbarDemo: React.FC<VariantDemoProps> = (props) => (
+  <MockSessionProvider>
+    <AuthHeader {...props} />
+  </MockSessionProvider>
+);
+
+export default AuthNavbarDemo;
@@ -0,0 +1,132 @@
+"use client";
+
+import {
+  CircleHelp,
+  House,
+  Inbox,
+  Search,
+  Settings,
+  ShieldCheck,
+  User,
+} from "lucide-react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import { Navbar, type NavbarConfig, type NavLink } from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+// Demo copy for each sub-route, keyed by path relative to basePath
+const PAGES: Record<string, { title: string; body: string }> = {
+  "": {
+    title: "Home",
+    body: "Narrow the window (or open this on a phone): the first four links become a fixed tab bar at the bottom, and everything else moves behind the More tab, which opens the usual drawer.",
+  },
+  search: {
+    title: "Search",
+    body: "Focus the field below on a touch device: the tab bar slides away while the on-screen keyboard is open, so it never floats on top of it.",
+  },
+  inbox: {
+    title: "Inbox",
+    body: "Badges sit on the tab icon and are announced when the count changes.",
+  },
+  profile: {
+    title: "Profile",
+    body: "The active tab follows the route, like the links in the bar and drawer. With scroll spy on single-page layouts it follows the section instead.",
+  },
+  settings: {
+    title: "Settings",
+    body: "This page lives behind More, so the More tab is highlighted while you are here.",
+  },
+  help: {
+    title: "Help",
+    body: "The tab bar pads itself with the safe-area insets, so it clears the home indicator on notched phones; the top bar and drawer clear the notch the same way.",
+  },
+  privacy: {
+    title: "Privacy",
+    body: "Above the mobile breakpoint the tab bar disappears and all links return to the top bar.",
+  },
+};
+
+const BottomTabsDemo: React.FC<VariantDemoProps> = ({ basePath }) => {
+  const navbarEvents = useNavbarAnalytics("multipage");
+  const pathname = usePathname();
+
+  const navConfig: NavbarConfig = {
+    mode: "multipage",
+    layout: "bottom-tabs",
+    bottomTabCount: 4,
+    side: "bottom",
+    height: "auto",
+    initialBg: "bg-nav-surface",
+    scrolledBg: "bg-nav-surface/95 shadow-md",
+    mobileBreakpoint: "md",
+  };
+
+  const navLinks: NavLink[] = [
+    { id: "home", label: "Home", href: basePath, icon: House },
+    { id: "search", label: "Search", href: `${basePath}/search`, icon: Search },
+    {
+      id: "inbox",
+      label: "Inbox",
+      href: `${basePath}/inbox`,
+      icon: Inbox,
+      badge: 3,
+    },
+    {
+      id: "profile",
+      label: "Profile",
+      href: `${basePath}/profile`,
+      icon: User,
+    },
+    {
+      id: "settings",
+      label: "Settings",
+      href: `${basePath}/settings`,
+      icon: Settings,
+    },
+    { id: "help", label: "Help", href: `${basePath}/help`, icon: CircleHelp },
+    {
+      id: "privacy",
+      label: "Privacy",
+      href: `${basePath}/privacy`,
+      icon: ShieldCheck,
+    },
+  ];
+
+  const pageKey = pathname.slice(basePath.length + 1);
+  const page = PAGES[pageKey] ?? PAGES[""];
+
+  return (
+    // Bottom padding keeps the last content clear of the tab bar
+    <div className="min-h-screen bg-gray-50 pb-[calc(4rem+env(safe-area-inset-bottom))] md:pb-0">
+      <Navbar
+        {...navbarEvents}
+        config={navConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-indigo-700">
+            Pocket
+          </Link>
+        }
+        links={navLinks}
+      />
+
+      <section className="flex min-h-screen items-center justify-center">
+        <div className="max-w-2xl px-4">
+          <h1 className="mb-6 text-4xl font-bold">{page?.title}</h1>
+          <p className="text-lg text-gray-600">{page?.body}</p>
+          {pageKey === "search" && (
+            <input
+              type="search"
+              aria-label="Search"
+              placeholder="Search…"
+              className="mt-6 w-full rounded-lg border border-gray-300 bg-white px-4 py-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            />
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default BottomTabsDemo;
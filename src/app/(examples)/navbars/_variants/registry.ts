@@ -0,0 +1,149 @@
+import HeadlessDemo from "./drawer/headless";
+import LeftDrawerDemo from "./drawer/left-drawer";
+import MultiInstanceDemo from "./drawer/multi-instance";
+import AppRouterDemo from "./multipage/app-router";
+import AuthNavbarDemo from "./multipage/auth";
+import BottomTabsDemo from "./multipage/bottom-tabs";
+import ArticleNavbarDemo from "./singlepage/article";
+import ConfigFileDemo from "./singlepage/config-file";
+import I18nNavbarDemo from "./singlepage/i18n";
+import LandingNavbarDemo from "./singlepage/landing";
+import { type NavbarVariant, type NavbarVariantType } from "./types";
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Register a variant here to add it to the gallery and generate its demo route
+export const VARIANTS: NavbarVariant[] = [
+  {
+    slug: "landing",
+    type: "singlepage",
+    title: "Landing page",
+    description:
+      "Anchor navigation with scroll spy, a dropdown group and a mega menu with a featured card.",
+    tags: ["scroll-spy", "dropdown", "mega-menu", "keyboard", "animation"],
+    component: LandingNavbarDemo,
+    preview: { layout: "bar", accent: "bg-sky-700" },
+  },
+  {
+    slug: "article",
+    type: "singlepage",
+    title: "Article with auto-hide",
+    description:
+      "Headroom-style header that hides on scroll down and returns on scroll up, plus a reading progress bar.",
+    tags: ["auto-hide", "scroll-spy", "scroll-progress"],
+    component: ArticleNavbarDemo,
+    preview: { layout: "bar", accent: "bg-sky-700" },
+  },
+  {
+    slug: "i18n",
+    type: "singlepage",
+    title: "Localized and RTL",
+    description:
+      "English, German and Arabic with a locale switcher; the layout sets lang and dir, and the drawer opens from the logical end.",
+    tags: ["i18n", "rtl", "dropdown", "command-palette"],
+    component: I18nNavbarDemo,
+    preview: { layout: "bar", accent: "bg-teal-700" },
+  },
+  {
+    slug: "config-file",
+    type: "singlepage",
+    title: "Navigation config file",
+    description:
+      "Links and config loaded from per-locale JSON files, validated with zod when the server imports them.",
+    tags: ["config", "i18n", "dropdown", "scroll-spy"],
+    component: ConfigFileDemo,
+    preview: { layout: "bar", accent: "bg-emerald-700" },
+  },
+  {
+    slug: "app-router",
+    type: "multipage",
+    title: "App Router",
+    description:
+      "Route-based navigation using next/link, with the active link derived from the current pathname and a Cmd+K link search.",
+    tags: [
+      "active-route",
+      "dropdown",
+      "prefetch",
+      "command-palette",
+      "animation",
+    ],
+    component: AppRouterDemo,
+    preview: { layout: "bar", accent: "bg-sky-700" },
+    pages: ["about", "pricing", "docs", "docs/getting-started", "docs/api"],
+  },
+  {
+    slug: "auth",
+    type: "multipage",
+    title: "Auth-aware header",
+    description:
+      "Signed-in and signed-out states from a mock session, role-gated links, a sign-in action and an avatar user menu.",
+    tags: ["auth", "user-menu", "dropdown"],
+    component: AuthNavbarDemo,
+    preview: { layout: "bar", accent: "bg-indigo-700" },
+    pages: ["pricing", "projects", "admin", "billing", "profile", "settings"],
+  },
+  {
+    slug: "bottom-tabs",
+    type: "multipage",
+    title: "Bottom tab bar",
+    description:
+      "App-style tab bar on phones with icons and badges, a More tab for the remaining links, and safe-area and on-screen keyboard handling.",
+    tags: ["bottom-tabs", "active-route", "off-canvas"],
+    component: BottomTabsDemo,
+    preview: { layout: "bottom-tabs", accent: "bg-indigo-700" },
+    pages: ["search", "inbox", "profile", "settings", "help", "privacy"],
+  },
+  {
+    slug: "left-drawer",
+    type: "drawer",
+    title: "Left drawer",
+    description:
+      "Off-canvas menu that pushes the page aside from the left, shown below the large breakpoint.",
+    tags: ["scroll-spy", "off-canvas", "swipe", "animation"],
+    component: LeftDrawerDemo,
+    preview: { layout: "drawer", accent: "bg-emerald-700", side: "left" },
+  },
+  {
+    slug: "headless",
+    type: "drawer",
+    title: "Headless",
+    description:
+      "Custom markup built on the useNavbar hook, with prop getters supplying the behavior and ARIA wiring.",
+    tags: ["headless", "scroll-spy", "off-canvas"],
+    component: HeadlessDemo,
+    preview: { layout: "drawer", accent: "bg-stone-900" },
+  },
+  {
+    slug: "multi-instance",
+    type: "drawer",
+    title: "Multiple navbars",
+    description:
+      "A site header and a docs navbar on one page, with generated ids, portaled drawers, custom layers and only one drawer open at a time.",
+    tags: ["multi-instance", "portal", "off-canvas", "scroll-spy"],
+    component: MultiInstanceDemo,
+    preview: { layout: "bar", accent: "bg-rose-700" },
+  },
+];
+
+export const VARIANT_TYPE_LABELS: Record<NavbarVariantType, string> = {
+  singlepage: "Single-page",
+  multipage: "Multi-page",
+  drawer: "Side drawer",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const getVariant = (type: string, slug: string) =>
+  VARIANTS.find((variant) => variant.type === type && variant.slug === slug);
+
+export const getVariantHref = (variant: NavbarVariant) =>
+  `/navbars/${variant.type}/${variant.slug}`;
+
+// All tags in registry order, without duplicates
+export const getVariantTags = () => [
+  ...new Set(VARIANTS.flatMap((variant) => variant.tags)),
+];
@@ -0,0 +1,84 @@
+"use client";
+
+import Link from "next/link";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import {
+  Navbar,
+  useScrollDirection,
+  useScrollProgress,
+  type NavbarConfig,
+  type NavLink,
+} from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+const CHAPTERS = [
+  { id: "intro", label: "Introduction" },
+  { id: "history", label: "History" },
+  { id: "today", label: "Today" },
+  { id: "outlook", label: "Outlook" },
+];
+
+const ArticleNavbarDemo: React.FC<VariantDemoProps> = () => {
+  const navbarEvents = useNavbarAnalytics("singlepage");
+  const progress = useScrollProgress();
+  const direction = useScrollDirection();
+
+  const navConfig: NavbarConfig = {
+    initialBg: "bg-nav-surface",
+    scrolledBg: "bg-nav-surface/95 shadow-md",
+    enableScrollSpy: true,
+    autoHide: true,
+    autoHideTolerance: 12,
+  };
+
+  const navLinks: NavLink[] = CHAPTERS.map(({ id, label }) => ({
+    id,
+    label,
+    href: `#${id}`,
+  }));
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Navbar
+        {...navbarEvents}
+        config={navConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-sky-700">
+            Longread
+          </Link>
+        }
+        links={navLinks}
+      />
+
+      {/* Reading progress, built from the exported scroll hooks */}
+      <div
+        className="fixed top-0 left-0 z-50 h-1 bg-sky-600"
+        style={{ width: `${progress * 100}%` }}
+        aria-hidden="true"
+      />
+      <p className="fixed right-4 bottom-4 z-30 rounded-full bg-gray-900 px-3 py-1 text-sm text-white">
+        {Math.round(progress * 100)}% · scrolling {direction ?? "—"}
+      </p>
+
+      <article className="mx-auto max-w-2xl px-4 pt-32 pb-24">
+        <h1 className="mb-8 text-5xl font-bold">The auto-hiding header</h1>
+        {CHAPTERS.map(({ id, label }) => (
+          <section key={id} id={id} className="mb-16 scroll-mt-24">
+            <h2 className="mb-4 text-3xl font-bold">{label}</h2>
+            {Array.from({ length: 6 }, (_, index) => (
+              <p key={index} className="mb-4 text-lg text-gray-600">
+                Scroll down and the navbar slides out of the way so the text
+                gets the whole screen. Scroll up, even a little, and it comes
+                back. It stays pinned while the mobile menu is open or while
+                focus is inside it, so keyboard users never lose it.
+              </p>
+            ))}
+          </section>
+        ))}
+      </article>
+    </div>
+  );
+};
+
+export default ArticleNavbarDemo;
@@ -0,0 +1,179 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import { Navbar, type NavbarConfig, type NavLink } from "~/components/navbar";
+import { setLocaleCookie, SITE_LOCALES } from "~/app/_lib/locale";
+
+// ============================================================================
+// CONTENT
+// ============================================================================
+
+interface DemoCopy {
+  links: Record<"home" | "features" | "rtl" | "keyboard" | "contact", string>;
+  sections: Record<string, { title: string; body: string }>;
+}
+
+const EN: DemoCopy = {
+  links: {
+    home: "Home",
+    features: "Features",
+    rtl: "Right-to-left",
+    keyboard: "Keyboard",
+    contact: "Contact",
+  },
+  sections: {
+    home: {
+      title: "One navbar, every language",
+      body: "Pick a language in the bar (or at the bottom of the drawer). The choice is stored in a cookie, so the root layout renders <html lang dir> on the server and the navbar follows it.",
+    },
+    rtl: {
+      title: "Right-to-left",
+      body: 'Switch to العربية: the drawer uses side "end", which opens from the left in RTL, and dropdowns, arrows and spacing mirror.',
+    },
+    keyboard: {
+      title: "Keyboard",
+      body: "Left and right arrow keys follow the reading direction in the roving focus model.",
+    },
+    contact: {
+      title: "Contact",
+      body: "Built-in strings ship in English, German and Arabic. Pass `messages` to override any of them.",
+    },
+  },
+};
+
+const COPY: Record<string, DemoCopy> = {
+  en: EN,
+  de: {
+    links: {
+      home: "Start",
+      features: "Funktionen",
+      rtl: "Rechts nach links",
+      keyboard: "Tastatur",
+      contact: "Kontakt",
+    },
+    sections: {
+      home: {
+        title: "Eine Navbar, jede Sprache",
+        body: "Wähle oben (oder unten in der Schublade) eine Sprache. Die Auswahl landet in einem Cookie, damit das Root-Layout <html lang dir> schon auf dem Server setzt und die Navbar folgt.",
+      },
+      rtl: {
+        title: "Rechts nach links",
+        body: 'Wechsle zu العربية: Die Schublade nutzt side "end" und öffnet in RTL von links; Dropdowns, Pfeile und Abstände werden gespiegelt.',
+      },
+      keyboard: {
+        title: "Tastatur",
+        body: "Die Pfeiltasten links und rechts folgen im Roving-Focus-Modell der Leserichtung.",
+      },
+      contact: {
+        title: "Kontakt",
+        body: "Eingebaute Texte gibt es auf Englisch, Deutsch und Arabisch. Mit `messages` lässt sich jeder davon überschreiben.",
+      },
+    },
+  },
+  ar: {
+    links: {
+      home: "الرئيسية",
+      features: "الميزات",
+      rtl: "من اليمين لليسار",
+      keyboard: "لوحة المفاتيح",
+      contact: "اتصل بنا",
+    },
+    sections: {
+      home: {
+        title: "شريط تنقل واحد لكل اللغات",
+        body: "اختر لغة من الشريط (أو من أسفل القائمة الجانبية). يُحفظ الاختيار في ملف تعريف ارتباط حتى يضبط التخطيط الجذري <html lang dir> على الخادم ويتبعه شريط التنقل.",
+      },
+      rtl: {
+        title: "من اليمين لليسار",
+        body: 'تستخدم القائمة الجانبية side "end" فتفتح من اليسار في الاتجاه من اليمين لليسار، وتنعكس القوائم المنسدلة والأسهم والمسافات.',
+      },
+      keyboard: {
+        title: "لوحة المفاتيح",
+        body: "تتبع مفاتيح الأسهم اليمنى واليسرى اتجاه القراءة في نموذج التركيز المتنقل.",
+      },
+      contact: {
+        title: "اتصل بنا",
+        body: "النصوص المدمجة متوفرة بالإنجليزية والألمانية والعربية، ويمكن تجاوز أي منها عبر `messages`.",
+      },
+    },
+  },
+};
+
+// ============================================================================
+// DEMO
+// ============================================================================
+
+// Client half of the i18n demo; the server half reads the locale cookie
+const I18nNavbar: React.FC<{ locale: string }> = ({ locale }) => {
+  const navbarEvents = useNavbarAnalytics("singlepage");
+  const router = useRouter();
+  const copy = COPY[locale] ?? EN;
+
+  const changeLocale = (next: string) => {
+    setLocaleCookie(next);
+    router.refresh(); // Re-render the layout with the new lang/dir
+  };
+
+  const navConfig: NavbarConfig = {
+    locale,
+    dir: "auto", // Follow <html dir>
+    side: "end", // Right in LTR, left in RTL
+    initialBg: "bg-nav-surface",
+    scrolledBg: "bg-nav-surface/95 shadow-md",
+    enableScrollSpy: true,
+    enableCommandPalette: true,
+    keyboardNavigation: "roving",
+    mobileBreakpoint: "md",
+  };
+
+  const navLinks: NavLink[] = [
+    { id: "home", label: copy.links.home, href: "#home" },
+    {
+      id: "features",
+      label: copy.links.features,
+      href: "#rtl",
+      children: [
+        { id: "rtl", label: copy.links.rtl, href: "#rtl" },
+        { id: "keyboard", label: copy.links.keyboard, href: "#keyboard" },
+      ],
+    },
+    { id: "contact", label: copy.links.contact, href: "#contact" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar
+        {...navbarEvents}
+        config={navConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-teal-700">
+            Polyglot
+          </Link>
+        }
+        links={navLinks}
+        locales={SITE_LOCALES}
+        onLocaleChange={changeLocale}
+      />
+
+      {Object.entries(copy.sections).map(([id, section], index) => (
+        <section
+          key={id}
+          id={id}
+          className={`flex min-h-screen items-center justify-center ${
+            index % 2 ? "bg-gray-100" : "bg-white"
+          }`}
+        >
+          <div className="max-w-2xl px-4">
+            <h2 className="mb-6 text-4xl font-bold">{section.title}</h2>
+            <p className="text-lg text-gray-600">{section.body}</p>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default I18nNavbar;
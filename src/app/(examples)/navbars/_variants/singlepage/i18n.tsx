@@ -0,0 +1,16 @@
+import { cookies } from "next/headers";
+
+import { LOCALE_COOKIE, resolveLocale } from "~/app/_lib/locale";
+import { type VariantDemoProps } from "../types";
+import I18nNavbar from "./i18n-navbar";
+
+// Server component: the copy's locale arrives as a prop, so de/ar render
+// translated in the first HTML; the root layout reads the same cookie for
+// <html lang dir>, which mirrors the page and the navbar.
+const I18nNavbarDemo: React.FC<VariantDemoProps> = async () => {
+  const locale = resolveLocale((await cookies()).get(LOCALE_COOKIE)?.value);
+
+  return <I18nNavbar locale={locale} />;
+};
+
+export default I18nNavbarDemo;
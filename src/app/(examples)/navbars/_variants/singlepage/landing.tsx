@@ -0,0 +1,265 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Building2,
+  Code,
+  Mail,
+  Monitor,
+  Moon,
+  Palette,
+  Sun,
+} from "lucide-react";
+import Link from "next/link";
+
+import { useNavbarAnalytics } from "~/components/analytics";
+import {
+  Navbar,
+  type NavColorScheme,
+  type NavbarConfig,
+  type NavLink,
+} from "~/components/navbar";
+import { type VariantDemoProps } from "../types";
+
+const COLOR_SCHEMES: {
+  value: NavColorScheme;
+  label: string;
+  icon: typeof Sun;
+}[] = [
+  { value: "system", label: "System", icon: Monitor },
+  { value: "light", label: "Light", icon: Sun },
+  { value: "dark", label: "Dark", icon: Moon },
+];
+
+const LandingNavbarDemo: React.FC<VariantDemoProps> = () => {
+  const navbarEvents = useNavbarAnalytics("singlepage");
+  const [colorScheme, setColorScheme] = useState<NavColorScheme>("system");
+
+  const navConfig: NavbarConfig = {
+    colorScheme,
+    side: "right",
+    width: { base: "100vw", md: "80vw", lg: "50vw" },
+    initialBg: "bg-transparent",
+    scrolledBg: "bg-nav-surface/95 shadow-md",
+    scrollThreshold: 20,
+    logoScale: { initial: 1, scrolled: 0.92 },
+    closeOnRouteChange: true,
+    trapFocus: true,
+    enableScrollSpy: true,
+    scrollSpySyncHash: true, // Keep the URL hash on the section being read
+    mobileBreakpoint: "md", // Show hamburger below 768px
+    keyboardNavigation: "roving", // Arrow keys, Home/End and typeahead
+    activeIndicator: "pill", // Highlight glides between desktop links
+  };
+
+  const navLinks: NavLink[] = [
+    { id: "hero", label: "Home", href: "#hero" },
+    { id: "about", label: "About", href: "#about" },
+    {
+      id: "services",
+      label: "Services",
+      href: "#services",
+      children: [
+        { id: "design", label: "Design", href: "#design" },
+        { id: "development", label: "Development", href: "#development" },
+      ],
+    },
+    {
+      id: "explore",
+      label: "Explore",
+      href: "#about",
+      megaMenu: {
+        columns: [
+          {
+            heading: "Company",
+            links: [
+              {
+                id: "about",
+                label: "About",
+                href: "#about",
+                description: "Who we are and how we work",
+                icon: Building2,
+              },
+              {
+                id: "contact",
+                label: "Contact",
+                href: "#contact",
+                description: "Talk to our team",
+                icon: Mail,
+              },
+            ],
+          },
+          {
+            heading: "Services",
+            links: [
+              {
+                id: "design",
+                label: "Design",
+                href: "#design",
+                description: "Interfaces people enjoy using",
+                icon: Palette,
+              },
+              {
+                id: "development",
+                label: "Development",
+                href: "#development",
+                description: "Fast, accessible web apps",
+                icon: Code,
+              },
+            ],
+          },
+        ],
+        featured: (
+          <div className="rounded-xl bg-linear-to-br from-sky-600 to-blue-500 p-5 text-white">
+            <p className="text-sm font-semibold tracking-wide uppercase opacity-80">
+              New
+            </p>
+            <p className="mt-2 text-lg font-bold">Mega menus</p>
+            <p className="mt-1 text-sm opacity-90">
+              Grouped columns, descriptions, icons and a featured slot like this
+              one.
+            </p>
+          </div>
+        ),
+      },
+    },
+    { id: "contact", label: "Contact", href: "#contact" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar
+        {...navbarEvents}
+        config={navConfig}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-sky-700">
+            MyBrand
+          </Link>
+        }
+        links={navLinks}
+      />
+
+      {/* Manual theme toggle for the navbar tokens */}
+      <div
+        role="group"
+        aria-label="Navbar color scheme"
+        className="fixed right-4 bottom-4 z-30 flex gap-1 rounded-full bg-white p-1 shadow-lg ring-1 ring-gray-200"
+      >
+        {COLOR_SCHEMES.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setColorScheme(value)}
+            aria-pressed={colorScheme === value}
+            aria-label={label}
+            className={`rounded-full p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none ${
+              colorScheme === value
+                ? "bg-sky-700 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            <Icon className="h-4 w-4" aria-hidden="true" />
+          </button>
+        ))}
+      </div>
+
+      {/* Page Content */}
+      <section
+        id="hero"
+        className="to-amber-400-600 flex min-h-screen items-center justify-center bg-linear-to-tl from-blue-500"
+      >
+        <div className="px-4 text-center text-white">
+          <h1 className="mb-4 text-5xl font-bold">Welcome</h1>
+          <p className="mb-2 text-xl">
+            Desktop: Full navbar with links visible
+          </p>
+          <p className="text-xl">Mobile: Hamburger menu that slides in</p>
+          <p className="mt-4 text-sm opacity-75">
+            Resize your browser to see the responsive behavior
+          </p>
+        </div>
+      </section>
+
+      <section
+        id="about"
+        className="flex min-h-screen items-center justify-center bg-white"
+      >
+        <div className="max-w-2xl px-4">
+          <h2 className="mb-6 text-4xl font-bold">About Us</h2>
+          <p className="mb-4 text-lg text-gray-600">
+            On <strong>desktop screens</strong> (≥768px), navigation links are
+            displayed inline in the navbar. The navbar background changes as you
+            scroll, and nav items smoothly adjust their padding.
+          </p>
+          <p className="text-lg text-gray-600">
+            On <strong>mobile screens</strong> (&lt;768px), a hamburger menu
+            appears that opens a slide-in panel. Active links are highlighted
+            based on the current section (scroll spy).
+          </p>
+        </div>
+      </section>
+
+      <section
+        id="services"
+        className="flex min-h-screen items-center justify-center bg-gray-100"
+      >
+        <div className="max-w-2xl px-4">
+          <h2 className="mb-6 text-4xl font-bold">Our Services</h2>
+          <p className="mb-4 text-lg text-gray-600">
+            The mobile menu slides in from the right (configurable), locks body
+            scroll, and can be closed by clicking outside, pressing Escape, or
+            clicking a link.
+          </p>
+          <p className="text-lg text-gray-600">
+            Desktop navigation remains always visible with hover effects and
+            smooth transitions.
+          </p>
+        </div>
+      </section>
+
+      <section
+        id="design"
+        className="flex min-h-screen items-center justify-center bg-white"
+      >
+        <div className="max-w-2xl px-4">
+          <h2 className="mb-6 text-4xl font-bold">Design</h2>
+          <p className="text-lg text-gray-600">
+            Links can have nested <code>children</code>. On desktop they open in
+            a dropdown; in the mobile menu they expand as an accordion. The
+            parent stays highlighted while any of its children is active.
+          </p>
+        </div>
+      </section>
+
+      <section
+        id="development"
+        className="flex min-h-screen items-center justify-center bg-gray-100"
+      >
+        <div className="max-w-2xl px-4">
+          <h2 className="mb-6 text-4xl font-bold">Development</h2>
+          <p className="text-lg text-gray-600">
+            Dropdowns are keyboard accessible: Enter or Space toggles them,
+            Escape closes them and returns focus to the trigger, and they close
+            when focus or a click moves outside.
+          </p>
+        </div>
+      </section>
+
+      <section
+        id="contact"
+        className="flex min-h-screen items-center justify-center bg-white"
+      >
+        <div className="max-w-2xl px-4">
+          <h2 className="mb-6 text-4xl font-bold">Get In Touch</h2>
+          <p className="text-lg text-gray-600">
+            All accessibility features work on both mobile and desktop: keyboard
+            navigation, ARIA attributes, focus management, and
+            prefers-reduced-motion support.
+          </p>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default LandingNavbarDemo;
@@ -0,0 +1,29 @@
+// ============================================================================
+// VARIANT REGISTRY TYPES
+// ============================================================================
+
+export type NavbarVariantType = "singlepage" | "multipage" | "drawer";
+
+// Props every demo component receives from the generated route
+export interface VariantDemoProps {
+  basePath: string; // e.g. "/navbars/multipage/app-router"
+}
+
+// Static sketch of the navbar drawn on its gallery card by VariantPreview;
+// tags add details (mega-menu, user-menu, command-palette, rtl, …)
+export interface NavbarVariantPreview {
+  layout: "bar" | "drawer" | "bottom-tabs";
+  accent: string; // Full Tailwind bg class for the logo, e.g. "bg-sky-700"
+  side?: "left" | "right"; // Drawer side (default: right)
+}
+
+export interface NavbarVariant {
+  slug: string; // URL segment, unique within its type
+  type: NavbarVariantType;
+  title: string;
+  description: string;
+  tags: string[];
+  component: React.ComponentType<VariantDemoProps>;
+  preview: NavbarVariantPreview;
+  pages?: string[]; // Extra sub-routes pre-rendered under basePath (multipage demos)
+}
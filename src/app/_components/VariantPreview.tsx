@@ -0,0 +1,104 @@
+import { type NavbarVariant } from "../(examples)/navbars/_variants/types";
+
+// ============================================================================
+// GALLERY CARD PREVIEW
+// ============================================================================
+
+// A static, decorative sketch of the variant's navbar: no demo code runs on
+// the gallery, so the grid stays light however many variants are registered
+
+const line = (width: string) => (
+  <span className={`block h-1.5 rounded-full bg-gray-300 ${width}`} />
+);
+
+const VariantPreview: React.FC<{ variant: NavbarVariant }> = ({ variant }) => {
+  const { layout, accent, side = "right" } = variant.preview;
+  const has = (tag: string) => variant.tags.includes(tag);
+
+  return (
+    <div
+      aria-hidden="true"
+      dir={has("rtl") ? "rtl" : undefined}
+      className="relative mb-4 h-32 overflow-hidden rounded-lg bg-gray-100 ring-1 ring-gray-200"
+    >
+      {/* Top bar */}
+      <div className="flex items-center justify-between bg-white px-3 py-2 shadow-sm">
+        <span className={`block h-2.5 w-10 rounded-full ${accent}`} />
+        <span className="flex items-center gap-1.5">
+          {layout === "bar" &&
+            ["w-6", "w-8", "w-5", "w-7"].map((width) => (
+              <span key={width}>{line(width)}</span>
+            ))}
+          {has("command-palette") && (
+            <span className="block h-3 w-7 rounded border border-gray-300" />
+          )}
+          {has("user-menu") && (
+            <span className={`block h-3.5 w-3.5 rounded-full ${accent}`} />
+          )}
+          {layout === "drawer" && (
+            <span className="block w-4 space-y-0.5">
+              {line("w-4")}
+              {line("w-4")}
+              {line("w-4")}
+            </span>
+          )}
+        </span>
+      </div>
+
+      {has("scroll-progress") && (
+        <span className={`block h-0.5 w-2/3 ${accent}`} />
+      )}
+
+      {/* Second navbar under the header */}
+      {has("multi-instance") && (
+        <div className="flex items-center justify-between bg-gray-200 px-3 py-1.5">
+          {line("w-8")}
+          <span className="block w-3 space-y-0.5">
+            {line("w-3")}
+            {line("w-3")}
+          </span>
+        </div>
+      )}
+
+      {has("mega-menu") && (
+        <div className="absolute inset-x-6 top-10 grid grid-cols-3 gap-2 rounded-md bg-white p-2 shadow-md">
+          {["w-10", "w-8", "w-12"].map((width) => (
+            <span key={width} className="space-y-1">
+              {line(width)}
+              {line("w-6")}
+              {line("w-8")}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {layout === "drawer" && (
+        <div
+          className={`absolute inset-y-0 w-1/3 space-y-2 bg-white p-3 shadow-lg ${
+            side === "left" ? "left-0" : "right-0"
+          }`}
+        >
+          <span className={`block h-2 w-8 rounded-full ${accent}`} />
+          {line("w-12")}
+          {line("w-10")}
+          {line("w-14")}
+        </div>
+      )}
+
+      {layout === "bottom-tabs" && (
+        <div className="absolute inset-x-0 bottom-0 flex justify-around bg-white py-2 shadow-[0_-1px_3px_rgb(0_0_0/0.1)]">
+          {[accent, "bg-gray-300", "bg-gray-300", "bg-gray-300"].map(
+            (color, index) => (
+              <span
+                key={index}
+                className={`block h-3.5 w-3.5 rounded-full ${color}`}
+              />
+            ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantPreview;
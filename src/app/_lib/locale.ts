@@ -0,0 +1,23 @@
+import { type NavLocale } from "~/components/navbar";
+
+// The site locale lives in a cookie so the root layout can render
+// <html lang dir> on the server, before any client code runs
+
+export const LOCALE_COOKIE = "locale";
+export const DEFAULT_LOCALE = "en";
+
+export const SITE_LOCALES: NavLocale[] = [
+  { code: "en", label: "English" },
+  { code: "de", label: "Deutsch" },
+  { code: "ar", label: "العربية" },
+];
+
+// Supported locale from a cookie value, else the default
+export const resolveLocale = (value: string | undefined) =>
+  SITE_LOCALES.find((locale) => locale.code === value)?.code ?? DEFAULT_LOCALE;
+
+// Client-side: persist the choice for a year; pair with router.refresh() so
+// the layout re-renders with the new lang/dir
+export const setLocaleCookie = (locale: string) => {
+  document.cookie = `${LOCALE_COOKIE}=${encodeURIComponent(locale)}; path=/; max-age=31536000; samesite=lax`;
+};
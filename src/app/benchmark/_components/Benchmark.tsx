@@ -0,0 +1,171 @@
+"use client";
+
+import { Profiler, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+
+import { Navbar, type NavbarConfig, type NavLink } from "~/components/navbar";
+
+// ============================================================================
+// FIXTURE
+// ============================================================================
+
+const GROUP_COUNT = 6;
+const LINKS_PER_GROUP = 20;
+
+// 6 dropdowns of 20 anchors each, one section per anchor
+const BENCHMARK_LINKS: NavLink[] = Array.from(
+  { length: GROUP_COUNT },
+  (_, group) => {
+    const children = Array.from({ length: LINKS_PER_GROUP }, (_, index) => {
+      const id = `section-${group * LINKS_PER_GROUP + index + 1}`;
+      return { id, label: `Section ${id.slice(8)}`, href: `#${id}` };
+    });
+    return {
+      id: `group-${group + 1}`,
+      label: `Group ${group + 1}`,
+      href: children[0]?.href ?? "#",
+      children,
+    };
+  },
+);
+
+const SECTION_IDS = BENCHMARK_LINKS.flatMap(
+  (link) => link.children?.map((child) => child.id) ?? [],
+);
+
+const BENCHMARK_CONFIG: NavbarConfig = {
+  initialBg: "bg-nav-surface",
+  scrolledBg: "bg-nav-surface/95 shadow-md",
+  enableScrollSpy: true,
+  enableCommandPalette: true,
+  mobileBreakpoint: "lg",
+};
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+interface Counters {
+  scrollEvents: number;
+  commits: number; // Profiler commits inside <Navbar>
+  renderTime: number; // Sum of their actualDuration (ms)
+  sectionChanges: number;
+}
+
+const EMPTY_COUNTERS: Counters = {
+  scrollEvents: 0,
+  commits: 0,
+  renderTime: 0,
+  sectionChanges: 0,
+};
+
+// Polls the counters on its own, so showing them never re-renders the navbar
+const StatsPanel: React.FC<{
+  counters: React.RefObject<Counters>;
+}> = ({ counters }) => {
+  const [stats, setStats] = useState(EMPTY_COUNTERS);
+
+  useEffect(() => {
+    const interval = setInterval(() => setStats({ ...counters.current }), 250);
+    return () => clearInterval(interval);
+  }, [counters]);
+
+  const perHundred = stats.scrollEvents
+    ? ((stats.commits / stats.scrollEvents) * 100).toFixed(1)
+    : "–";
+
+  return (
+    <aside
+      aria-label="Render counts"
+      className="fixed end-4 bottom-4 z-40 w-64 rounded-xl bg-gray-900/90 p-4 font-mono text-sm text-white shadow-lg"
+    >
+      <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1">
+        <dt>Scroll events</dt>
+        <dd>{stats.scrollEvents}</dd>
+        <dt>Navbar commits</dt>
+        <dd>{stats.commits}</dd>
+        <dt>Section changes</dt>
+        <dd>{stats.sectionChanges}</dd>
+        <dt>Render time</dt>
+        <dd>{stats.renderTime.toFixed(1)} ms</dd>
+        <dt>Commits / 100 events</dt>
+        <dd>{perHundred}</dd>
+      </dl>
+      <button
+        type="button"
+        onClick={() => {
+          counters.current = { ...EMPTY_COUNTERS };
+          setStats(EMPTY_COUNTERS);
+        }}
+        className="mt-3 w-full rounded-md bg-white/10 px-2 py-1 hover:bg-white/20 focus:ring-2 focus:ring-white focus:outline-none"
+      >
+        Reset
+      </button>
+    </aside>
+  );
+};
+
+// ============================================================================
+// BENCHMARK
+// ============================================================================
+
+const Benchmark: React.FC = () => {
+  const counters = useRef<Counters>({ ...EMPTY_COUNTERS });
+
+  useEffect(() => {
+    const handleScroll = () => counters.current.scrollEvents++;
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    return () => window.removeEventListener("scroll", handleScroll);
+  }, []);
+
+  const onRender: React.ProfilerOnRenderCallback = (_id, _phase, duration) => {
+    counters.current.commits++;
+    counters.current.renderTime += duration;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Profiler id="navbar" onRender={onRender}>
+        <Navbar
+          config={BENCHMARK_CONFIG}
+          logo={
+            <Link href="/" className="text-2xl font-bold text-sky-700">
+              Benchmark
+            </Link>
+          }
+          links={BENCHMARK_LINKS}
+          onSectionChange={() => counters.current.sectionChanges++}
+        />
+      </Profiler>
+
+      <header className="container mx-auto max-w-2xl px-4 pt-32 pb-8">
+        <h1 className="mb-4 text-4xl font-bold">Scroll benchmark</h1>
+        <p className="text-lg text-gray-600">
+          {SECTION_IDS.length} links and sections. Scroll through the page: the
+          navbar only commits when the scrolled state flips or the scroll spy
+          moves to another section, however many scroll events fire. Counts come
+          from React&apos;s Profiler, which reports in development and profiling
+          builds.
+        </p>
+      </header>
+
+      {SECTION_IDS.map((id, index) => (
+        <section
+          key={id}
+          id={id}
+          className={`flex min-h-[60vh] items-center justify-center ${
+            index % 2 ? "bg-gray-100" : "bg-white"
+          }`}
+        >
+          <h2 className="text-3xl font-bold text-gray-400">
+            Section {index + 1}
+          </h2>
+        </section>
+      ))}
+
+      <StatsPanel counters={counters} />
+    </div>
+  );
+};
+
+export default Benchmark;
@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+
+import Benchmark from "./_components/Benchmark";
+
+export const metadata: Metadata = {
+  title: "Benchmark",
+  description:
+    "A navbar with 120 links and sections, counting its re-renders against scroll events.",
+};
+
+export default function BenchmarkPage() {
+  return <Benchmark />;
+}
@@ -1,8 +1,12 @@
 import "~/styles/globals.css";
 
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist } from "next/font/google";
-import Script from "next/script";
+import { cookies } from "next/headers";
+
+import Analytics from "~/components/analytics/Analytics";
+import { getLocaleDirection } from "~/components/navbar/i18n";
+import { LOCALE_COOKIE, resolveLocale } from "./_lib/locale";
 
 /**
  * Inline SVG favicon whose stroke color adapts to the user's theme.
@@ -80,31 +84,32 @@ export const metadata: Metadata = {
     shortcut: faviconDataUri,
     apple: "/logo.png",
   },
+};
+
+// viewport-fit=cover lets fixed bars pad themselves with the safe-area insets
+export const viewport: Viewport = {
+  viewportFit: "cover",
   themeColor: "#ffffff",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{ children: React.ReactNode }>) {
+  // Active locale drives lang/dir for the whole document, so navbars with
+  // dir: "auto" (and everything else) follow it from the server render
+  const locale = resolveLocale((await cookies()).get(LOCALE_COOKIE)?.value);
+
   return (
-    <html lang="en" className={`${geist.variable}`}>
-      <head>
-        <Script
-          id="microsoft-clarity"
-          strategy="afterInteractive"
-          dangerouslySetInnerHTML={{
-            __html: `
-              (function(c,l,a,r,i,t,y){
-                  c[a]=c[a]||function(){(c[a].q=c[a].q||[]).push(arguments)};
-                  t=l.createElement(r);t.async=1;t.src="https://www.clarity.ms/tag/"+i;
-                  y=l.getElementsByTagName(r)[0];y.parentNode.insertBefore(t,y);
-              })(window, document, "clarity", "script", "u2w8pl00m1");
-            `,
-          }}
-        />
-      </head>
+    <html
+      lang={locale}
+      dir={getLocaleDirection(locale)}
+      className={`${geist.variable}`}
+    >
       <body className="antialiased">
-        <main>{children}</main>
+        {/* Off unless a provider ID is configured and the visitor consents */}
+        <Analytics>
+          <main>{children}</main>
+        </Analytics>
       </body>
     </html>
   );
@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Check, Copy, RotateCcw, X } from "lucide-react";
+
+import {
+  Navbar,
+  DEFAULT_NAVBAR_CONFIG,
+  type NavbarConfig,
+  type NavLink,
+} from "~/components/navbar";
+import {
+  CONFIG_FIELDS,
+  CONFIG_KEYS,
+  isValidFieldValue,
+  parseConfig,
+  serializeConfig,
+  toNavbarCode,
+  type ConfigKey,
+  type FieldSpec,
+} from "../_lib/config-fields";
+
+const PLAYGROUND_LINKS: NavLink[] = [
+  { id: "hero", label: "Home", href: "#hero" },
+  { id: "about", label: "About", href: "#about" },
+  { id: "services", label: "Services", href: "#services" },
+  { id: "contact", label: "Contact", href: "#contact" },
+];
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+// ============================================================================
+// FIELD CONTROL
+// ============================================================================
+
+const FieldControl: React.FC<{
+  name: ConfigKey;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}> = ({ name, value, onChange }) => {
+  const spec: FieldSpec = CONFIG_FIELDS[name];
+  const id = `field-${name}`;
+
+  // JSON fields keep a local draft so half-typed input isn't discarded
+  const [draft, setDraft] = useState(() => JSON.stringify(value));
+  const [jsonError, setJsonError] = useState(false);
+
+  const label = (
+    <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+      {name}
+    </label>
+  );
+
+  switch (spec.kind) {
+    case "boolean":
+      return (
+        <div className="flex items-center justify-between gap-2">
+          {label}
+          <input
+            id={id}
+            type="checkbox"
+            checked={Boolean(value)}
+            onChange={(e) => onChange(e.target.checked)}
+            className="h-4 w-4"
+          />
+        </div>
+      );
+
+    case "select":
+      return (
+        <div className="space-y-1">
+          {label}
+          <select
+            id={id}
+            value={String(value)}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClass}
+          >
+            {spec.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      );
+
+    case "number":
+      return (
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            {label}
+            <span className="text-sm text-gray-500">{String(value)}</span>
+          </div>
+          <input
+            id={id}
+            type="range"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            value={Number(value)}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+      );
+
+    case "text":
+      return (
+        <div className="space-y-1">
+          {label}
+          <input
+            id={id}
+            type="text"
+            value={String(value)}
+            onChange={(e) => onChange(e.target.value)}
+            list={spec.suggestions ? `${id}-suggestions` : undefined}
+            className={inputClass}
+          />
+          {spec.suggestions && (
+            <datalist id={`${id}-suggestions`}>
+              {spec.suggestions.map((suggestion) => (
+                <option key={suggestion} value={suggestion} />
+              ))}
+            </datalist>
+          )}
+        </div>
+      );
+
+    case "json":
+      return (
+        <div className="space-y-1">
+          {label}
+          <textarea
+            id={id}
+            rows={2}
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              try {
+                const parsed = JSON.parse(e.target.value) as unknown;
+                // Valid JSON of the wrong shape stays a draft, like a typo
+                const isValid = isValidFieldValue(name, parsed);
+                if (isValid) onChange(parsed);
+                setJsonError(!isValid);
+              } catch {
+                setJsonError(true);
+              }
+            }}
+            aria-invalid={jsonError}
+            className={`${inputClass} font-mono ${jsonError ? "border-red-500" : ""}`}
+          />
+        </div>
+      );
+  }
+};
+
+// ============================================================================
+// PLAYGROUND
+// ============================================================================
+
+const Playground: React.FC = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const [config, setConfig] = useState<NavbarConfig>(() =>
+    parseConfig(new URLSearchParams(searchParams.toString())),
+  );
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">(
+    "idle",
+  );
+  // One reset timer at a time: a second copy re-arms it, unmount clears it
+  const copyTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  useEffect(() => () => clearTimeout(copyTimerRef.current), []);
+  // Remount controls on reset so JSON drafts pick up the defaults
+  const [resetKey, setResetKey] = useState(0);
+
+  // Mirror the config into the URL so the current setup can be shared
+  const updateConfig = (next: NavbarConfig) => {
+    setConfig(next);
+    const query = serializeConfig(next);
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const code = toNavbarCode(config, PLAYGROUND_LINKS);
+
+  const copyCode = async () => {
+    // Rejected without clipboard permission or outside a secure context
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopyState("copied");
+    } catch {
+      setCopyState("failed");
+    }
+    clearTimeout(copyTimerRef.current);
+    copyTimerRef.current = setTimeout(() => setCopyState("idle"), 2000);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Remount on mode/side changes so the preview starts from a clean state */}
+      <Navbar
+        key={`${config.mode}-${config.side}`}
+        config={config}
+        logo={
+          <Link href="/" className="text-2xl font-bold text-sky-700">
+            Playground
+          </Link>
+        }
+        links={PLAYGROUND_LINKS}
+      />
+
+      <div className="container mx-auto flex flex-col gap-8 px-4 lg:flex-row">
+        {/* Preview content */}
+        <div className="flex-1">
+          {PLAYGROUND_LINKS.map((link, index) => (
+            <section
+              key={link.id}
+              id={link.id}
+              className={`flex min-h-screen items-center justify-center ${
+                index % 2 ? "bg-white" : "bg-gray-100"
+              }`}
+            >
+              <h2 className="text-4xl font-bold">{link.label}</h2>
+            </section>
+          ))}
+        </div>
+
+        {/* Controls */}
+        <aside
+          aria-label="Navbar configuration"
+          className="top-28 h-fit space-y-6 py-28 lg:sticky lg:w-96 lg:py-0"
+        >
+          <div className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-gray-200">
+            <div className="mb-4 flex items-center justify-between">
+              <h1 className="text-lg font-bold">NavbarConfig</h1>
+              <button
+                type="button"
+                onClick={() => {
+                  updateConfig({});
+                  setResetKey((key) => key + 1);
+                }}
+                className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                <RotateCcw className="h-4 w-4" aria-hidden="true" />
+                Reset
+              </button>
+            </div>
+
+            <div
+              key={resetKey}
+              className="max-h-[50vh] space-y-4 overflow-y-auto pr-1"
+            >
+              {CONFIG_KEYS.map((name) => (
+                <FieldControl
+                  key={name}
+                  name={name}
+                  value={config[name] ?? DEFAULT_NAVBAR_CONFIG[name]}
+                  onChange={(value) =>
+                    updateConfig({ ...config, [name]: value })
+                  }
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Code export */}
+          <div className="rounded-xl bg-gray-900 p-4 text-gray-100 shadow-sm">
+            <div className="mb-2 flex items-center justify-between">
+              <h2 className="text-sm font-semibold">Code</h2>
+              <button
+                type="button"
+                onClick={copyCode}
+                className="flex items-center gap-1 rounded-md px-2 py-1 text-sm hover:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {copyState === "copied" ? (
+                  <Check className="h-4 w-4" aria-hidden="true" />
+                ) : copyState === "failed" ? (
+                  <X className="h-4 w-4" aria-hidden="true" />
+                ) : (
+                  <Copy className="h-4 w-4" aria-hidden="true" />
+                )}
+                {copyState === "copied"
+                  ? "Copied"
+                  : copyState === "failed"
+                    ? "Copy failed – select the code below"
+                    : "Copy code"}
+              </button>
+            </div>
+            <pre className="max-h-64 overflow-auto text-xs">
+              <code>{code}</code>
+            </pre>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default Playground;
@@ -0,0 +1,199 @@
+import {
+  DEFAULT_NAVBAR_CONFIG,
+  navbarConfigFieldSchemas,
+  type NavbarConfig,
+  type NavLink,
+} from "~/components/navbar";
+
+// ============================================================================
+// FIELD SPECS
+// ============================================================================
+
+export type FieldSpec =
+  | { kind: "select"; options: readonly string[] }
+  | { kind: "number"; min: number; max: number; step: number }
+  | { kind: "boolean" }
+  | { kind: "text"; suggestions?: readonly string[] }
+  | { kind: "json" }; // Object-valued fields, edited as JSON
+
+// One control per NavbarConfig field; adding a config field without a spec
+// here is a type error, so the playground never falls behind the component.
+export const CONFIG_FIELDS = {
+  mode: { kind: "select", options: ["singlepage", "multipage"] },
+  layout: { kind: "select", options: ["bar", "bottom-tabs"] },
+  bottomTabCount: { kind: "number", min: 1, max: 6, step: 1 },
+  side: {
+    kind: "select",
+    options: ["left", "right", "top", "bottom", "start", "end"],
+  },
+  width: { kind: "json" },
+  height: { kind: "json" },
+  initialBg: { kind: "text" },
+  scrolledBg: { kind: "text" },
+  scrollThreshold: { kind: "number", min: 0, max: 400, step: 10 },
+  logoScale: { kind: "json" },
+  closeOnRouteChange: { kind: "boolean" },
+  trapFocus: { kind: "boolean" },
+  disableBodyScrollOnOpen: { kind: "boolean" },
+  ariaLabel: { kind: "text" },
+  animateDuration: { kind: "number", min: 0, max: 2000, step: 50 },
+  enableScrollSpy: { kind: "boolean" },
+  scrollSpyOffset: { kind: "json" },
+  scrollSpyRootMargin: { kind: "text" },
+  scrollSpyThreshold: { kind: "json" },
+  scrollSpySyncHash: { kind: "boolean" },
+  mobileBreakpoint: {
+    kind: "text",
+    suggestions: ["sm", "md", "lg", "xl", "2xl", "900px", "60em"],
+  },
+  megaMenuHoverDelay: { kind: "number", min: 0, max: 1000, step: 25 },
+  colorScheme: { kind: "select", options: ["system", "light", "dark"] },
+  classNames: { kind: "json" },
+  autoHide: { kind: "boolean" },
+  autoHideTolerance: { kind: "number", min: 0, max: 100, step: 2 },
+  autoHideVelocity: { kind: "number", min: 0, max: 3, step: 0.1 },
+  breakpoints: { kind: "json" },
+  responsive: { kind: "json" },
+  enableCommandPalette: { kind: "boolean" },
+  commandPaletteRecents: { kind: "number", min: 0, max: 10, step: 1 },
+  swipeToClose: { kind: "boolean" },
+  swipeToOpen: { kind: "boolean" },
+  swipeEdgeWidth: { kind: "number", min: 8, max: 80, step: 4 },
+  swipeDistance: { kind: "number", min: 20, max: 300, step: 10 },
+  swipeVelocity: { kind: "number", min: 100, max: 2000, step: 50 },
+  keyboardNavigation: { kind: "select", options: ["tab", "roving"] },
+  drawerAnimation: {
+    kind: "select",
+    options: ["slide", "fade", "scale", "reveal", "push", "spring"],
+  },
+  drawerVariants: { kind: "json" },
+  linkStagger: { kind: "number", min: 0, max: 0.2, step: 0.01 },
+  activeIndicator: { kind: "select", options: ["background", "pill"] },
+  locale: { kind: "text", suggestions: ["en", "de", "ar"] },
+  dir: { kind: "select", options: ["auto", "ltr", "rtl"] },
+  messages: { kind: "json" },
+  portalContainer: { kind: "text", suggestions: ["body", "#navbar-portal"] },
+  zIndex: { kind: "json" },
+} satisfies Record<keyof NavbarConfig, FieldSpec>;
+
+export type ConfigKey = keyof typeof CONFIG_FIELDS;
+
+export const CONFIG_KEYS = Object.keys(CONFIG_FIELDS) as ConfigKey[];
+
+// ============================================================================
+// URL QUERY SERIALIZATION
+// ============================================================================
+
+// Only fields that differ from the defaults are written to the query
+export const serializeConfig = (config: NavbarConfig) => {
+  const params = new URLSearchParams();
+
+  for (const key of CONFIG_KEYS) {
+    const value = config[key];
+    if (value === undefined) continue;
+    if (JSON.stringify(value) === JSON.stringify(DEFAULT_NAVBAR_CONFIG[key]))
+      continue;
+
+    // Scalars are written as-is; object fields (and json-kind strings) as JSON
+    params.set(
+      key,
+      typeof value === "object" || CONFIG_FIELDS[key].kind === "json"
+        ? JSON.stringify(value)
+        : String(value),
+    );
+  }
+
+  return params.toString();
+};
+
+// Whether a value fits the field's schema (a JSON `null` for logoScale
+// would otherwise reach the Navbar and crash it)
+export const isValidFieldValue = (key: ConfigKey, value: unknown) =>
+  navbarConfigFieldSchemas[key].safeParse(value).success;
+
+// Unknown keys and malformed values are ignored rather than thrown on, since
+// the query comes from shared links that may predate the current fields.
+export const parseConfig = (params: URLSearchParams): NavbarConfig => {
+  const config: Record<string, unknown> = {};
+
+  for (const key of CONFIG_KEYS) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+
+    const spec: FieldSpec = CONFIG_FIELDS[key];
+    let value: unknown;
+    switch (spec.kind) {
+      case "select":
+        if (spec.options.includes(raw)) value = raw;
+        break;
+      case "number":
+        if (Number.isFinite(Number(raw))) value = Number(raw);
+        break;
+      case "boolean":
+        if (raw === "true" || raw === "false") value = raw === "true";
+        break;
+      case "text":
+        value = raw;
+        break;
+      case "json":
+        try {
+          value = JSON.parse(raw) as unknown;
+        } catch {
+          // Ignore malformed JSON
+        }
+        break;
+    }
+
+    // Well-formed but the wrong shape (`null`, a number for an array, …)
+    if (value !== undefined && isValidFieldValue(key, value)) {
+      config[key] = value;
+    }
+  }
+
+  return config as NavbarConfig;
+};
+
+// ============================================================================
+// CODE EXPORT
+// ============================================================================
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Format a plain value as a JS literal (unquoted keys where possible)
+const toLiteral = (value: unknown, indent: string): string => {
+  if (Array.isArray(value)) {
+    if (!value.length) return "[]";
+    const inner = indent + "  ";
+    return `[\n${value.map((item) => inner + toLiteral(item, inner)).join(",\n")},\n${indent}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (!entries.length) return "{}";
+    const inner = indent + "  ";
+    const lines = entries.map(
+      ([k, v]) =>
+        `${inner}${IDENTIFIER.test(k) ? k : JSON.stringify(k)}: ${toLiteral(v, inner)}`,
+    );
+    return `{\n${lines.join(",\n")},\n${indent}}`;
+  }
+
+  return JSON.stringify(value);
+};
+
+// JSX for the current setup, omitting fields left at their defaults
+export const toNavbarCode = (config: NavbarConfig, links: NavLink[]) => {
+  const changed = Object.fromEntries(
+    CONFIG_KEYS.filter(
+      (key) =>
+        config[key] !== undefined &&
+        JSON.stringify(config[key]) !==
+          JSON.stringify(DEFAULT_NAVBAR_CONFIG[key]),
+    ).map((key) => [key, config[key]]),
+  );
+
+  return `<Navbar
+  config={${toLiteral(changed, "  ")}}
+  links={${toLiteral(links, "  ")}}
+/>`;
+};
@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+
+import Playground from "./_components/Playground";
+
+export const metadata: Metadata = {
+  title: "Playground",
+  description:
+    "Tune every NavbarConfig field, share the setup via URL and copy the matching JSX.",
+};
+
+// useSearchParams() needs a Suspense boundary for static rendering
+export default function PlaygroundPage() {
+  return (
+    <Suspense>
+      <Playground />
+    </Suspense>
+  );
+}
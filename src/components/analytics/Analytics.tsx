@@ -0,0 +1,70 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  type ReactNode,
+} from "react";
+
+import ConsentBanner from "./ConsentBanner";
+import { useConsent } from "./consent";
+import { getActiveProvider } from "./providers";
+import { type AnalyticsProperties, type ConsentStatus } from "./types";
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+interface AnalyticsContextValue {
+  consent: ConsentStatus | null;
+  track: (event: string, properties?: AnalyticsProperties) => void;
+}
+
+// Without <Analytics> (or consent) events go nowhere
+const AnalyticsContext = createContext<AnalyticsContextValue>({
+  consent: null,
+  track: () => undefined,
+});
+
+export const useAnalytics = () => useContext(AnalyticsContext);
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+const provider = getActiveProvider();
+let isLoaded = false;
+
+// Loads the configured provider once the visitor accepts, and asks while
+// they have not answered. Renders no banner when analytics are off.
+const Analytics: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const consent = useConsent();
+  const isGranted = consent === "granted";
+
+  useEffect(() => {
+    if (!provider || !isGranted || isLoaded) return;
+    isLoaded = true;
+    provider.load();
+  }, [isGranted]);
+
+  const track = useCallback(
+    (event: string, properties?: AnalyticsProperties) => {
+      if (isGranted) provider?.track(event, properties);
+    },
+    [isGranted],
+  );
+
+  const value = useMemo(() => ({ consent, track }), [consent, track]);
+
+  return (
+    <AnalyticsContext.Provider value={value}>
+      {children}
+      {provider && consent === "pending" && <ConsentBanner />}
+    </AnalyticsContext.Provider>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,35 @@
+"use client";
+
+import { setConsent } from "./consent";
+
+// Non-modal prompt pinned to the bottom of the page; analytics stay off
+// until "Accept" is chosen
+const ConsentBanner: React.FC = () => (
+  <section
+    aria-label="Cookie consent"
+    className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-xl flex-col gap-4 rounded-xl bg-white p-4 text-sm text-gray-700 shadow-lg ring-1 ring-gray-200 sm:flex-row sm:items-center"
+  >
+    <p className="flex-1">
+      We use cookies for anonymous usage analytics that help us improve the
+      gallery. Nothing is collected unless you accept.
+    </p>
+    <div className="flex gap-2">
+      <button
+        type="button"
+        onClick={() => setConsent("denied")}
+        className="rounded-lg px-4 py-2 font-semibold text-gray-700 hover:bg-gray-100 focus:ring-2 focus:ring-gray-400 focus:outline-none"
+      >
+        Decline
+      </button>
+      <button
+        type="button"
+        onClick={() => setConsent("granted")}
+        className="rounded-lg bg-gray-900 px-4 py-2 font-semibold text-white hover:bg-gray-700 focus:ring-2 focus:ring-gray-400 focus:outline-none"
+      >
+        Accept
+      </button>
+    </div>
+  </section>
+);
+
+export default ConsentBanner;
@@ -0,0 +1,49 @@
+import { type AnalyticsProvider } from "./types";
+
+// ============================================================================
+// MICROSOFT CLARITY
+// ============================================================================
+
+interface ClarityQueue {
+  (...args: unknown[]): void;
+  q?: unknown[][];
+}
+
+declare global {
+  interface Window {
+    clarity?: ClarityQueue;
+  }
+}
+
+// Calls made before the tag has loaded are queued on `clarity.q`, which the
+// tag replays on start (the same stub as Clarity's own snippet)
+const getClarity = () => {
+  if (!window.clarity) {
+    const queue: ClarityQueue = (...args) => {
+      (queue.q ??= []).push(args);
+    };
+    window.clarity = queue;
+  }
+  return window.clarity;
+};
+
+export const createClarityProvider = (
+  projectId: string,
+): AnalyticsProvider => ({
+  name: "clarity",
+  load: () => {
+    getClarity()("consent");
+    const script = document.createElement("script");
+    script.async = true;
+    script.src = `https://www.clarity.ms/tag/${encodeURIComponent(projectId)}`;
+    document.head.appendChild(script);
+  },
+  // Properties become session tags, so recordings can be filtered by them
+  track: (event, properties = {}) => {
+    const clarity = getClarity();
+    Object.entries(properties).forEach(([key, value]) =>
+      clarity("set", key, String(value)),
+    );
+    clarity("event", event);
+  },
+});
@@ -0,0 +1,48 @@
+import { useSyncExternalStore } from "react";
+
+import { type ConsentStatus } from "./types";
+
+// ============================================================================
+// CONSENT STORE
+// ============================================================================
+
+const CONSENT_KEY = "analytics:consent";
+
+const listeners = new Set<() => void>();
+
+// Used when storage is blocked, so the answer holds for this page view
+let memoryStatus: ConsentStatus = "pending";
+
+const readConsent = (): ConsentStatus => {
+  try {
+    const stored = localStorage.getItem(CONSENT_KEY);
+    return stored === "granted" || stored === "denied" ? stored : memoryStatus;
+  } catch {
+    return memoryStatus;
+  }
+};
+
+// Also follows answers given in other tabs
+const subscribeToConsent = (onChange: () => void) => {
+  listeners.add(onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    listeners.delete(onChange);
+    window.removeEventListener("storage", onChange);
+  };
+};
+
+export const setConsent = (status: Exclude<ConsentStatus, "pending">) => {
+  memoryStatus = status;
+  try {
+    localStorage.setItem(CONSENT_KEY, status);
+  } catch {
+    // Ignore unreadable or blocked storage
+  }
+  listeners.forEach((listener) => listener());
+};
+
+// Current answer; null on the server and during hydration, so nothing
+// (banner included) renders before the stored answer is known
+export const useConsent = (): ConsentStatus | null =>
+  useSyncExternalStore(subscribeToConsent, readConsent, () => null);
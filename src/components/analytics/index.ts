@@ -0,0 +1,5 @@
+export { default as Analytics, useAnalytics } from "./Analytics";
+export { createClarityProvider } from "./clarity";
+export { setConsent, useConsent } from "./consent";
+export { useNavbarAnalytics } from "./useNavbarAnalytics";
+export * from "./types";
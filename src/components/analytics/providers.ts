@@ -0,0 +1,9 @@
+import { env } from "~/env";
+import { createClarityProvider } from "./clarity";
+import { type AnalyticsProvider } from "./types";
+
+// The provider configured for this deployment, or null when no ID is set
+export const getActiveProvider = (): AnalyticsProvider | null => {
+  const clarityId = env.NEXT_PUBLIC_CLARITY_PROJECT_ID;
+  return clarityId ? createClarityProvider(clarityId) : null;
+};
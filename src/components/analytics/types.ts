@@ -0,0 +1,17 @@
+// ============================================================================
+// ANALYTICS TYPES
+// ============================================================================
+
+// Values an event can carry
+export type AnalyticsProperties = Record<string, string | number | boolean>;
+
+// Adapter for one analytics vendor. Nothing is loaded or sent before the
+// visitor grants consent.
+export interface AnalyticsProvider {
+  name: string;
+  load: () => void; // Inject the vendor script; called once, after consent
+  track: (event: string, properties?: AnalyticsProperties) => void;
+}
+
+// "pending": the visitor has not answered the consent banner yet
+export type ConsentStatus = "granted" | "denied" | "pending";
@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+
+import { type NavbarProps, type NavMode } from "~/components/navbar";
+import { useAnalytics } from "./Analytics";
+
+type NavbarEvents = Pick<
+  NavbarProps,
+  "onOpen" | "onClose" | "onSectionChange" | "onLinkSelect"
+>;
+
+// Navbar lifecycle callbacks that forward to the active provider; spread
+// them onto <Navbar> or into useNavbar's options. Links are reported via
+// `onLinkSelect`, which leaves the navbar's own scrolling and routing alone.
+// `mode` only tags the events.
+export const useNavbarAnalytics = (
+  mode: NavMode = "multipage",
+): NavbarEvents => {
+  const { track } = useAnalytics();
+
+  return useMemo(
+    () => ({
+      onOpen: () => track("navbar_open"),
+      onClose: () => track("navbar_close"),
+      onSectionChange: (id) => track("navbar_section", { section: id }),
+      onLinkSelect: (href) => track("navbar_navigate", { href, mode }),
+    }),
+    [mode, track],
+  );
+};
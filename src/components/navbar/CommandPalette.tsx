@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { CornerDownLeft, Search } from "lucide-react";
+
+import { useOverlay } from "./hooks";
+import { formatMessage } from "./i18n";
+import {
+  type NavbarClassNames,
+  type NavbarMessages,
+  type NavLink,
+  type TextDirection,
+} from "./types";
+import { flattenLinks, searchLinks } from "./utils";
+
+// ============================================================================
+// COMMAND PALETTE
+// ============================================================================
+
+interface CommandPaletteProps {
+  links: NavLink[];
+  recentHrefs: string[];
+  onSelect: (link: NavLink) => void;
+  onClose: () => void;
+  duration: number;
+  themeAttribute?: string;
+  dir?: TextDirection;
+  classNames: NavbarClassNames;
+  messages: NavbarMessages;
+  zIndex?: number;
+}
+
+// Search dialog over every link (combobox + listbox pattern). Mount it only
+// while open, inside AnimatePresence, so each opening starts fresh.
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  links,
+  recentHrefs,
+  onSelect,
+  onClose,
+  duration,
+  themeAttribute,
+  dir,
+  classNames,
+  messages,
+  zIndex,
+}) => {
+  // Unique per palette, so several navbars can each have one
+  const listboxId = useId();
+  const optionId = (index: number) => `${listboxId}-${index}`;
+
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  // Focus lands on the input (first focusable) and stays in the palette;
+  // Escape closes it when it's the topmost overlay
+  useOverlay(true, rootRef, { onClose });
+
+  // Empty query: recent entries first, then everything else. Disabled
+  // links are never offered.
+  const recentLinks = query
+    ? []
+    : recentHrefs.flatMap(
+        (href) =>
+          flattenLinks(links).find(
+            (link) => link.href === href && !link.disabled,
+          ) ?? [],
+      );
+  const sections = [
+    { heading: messages.recentLinks, links: recentLinks },
+    {
+      heading: query ? messages.matchingLinks : messages.allLinks,
+      links: searchLinks(links, query).filter(
+        (link) => !link.disabled && !recentLinks.includes(link),
+      ),
+    },
+  ].filter((section) => section.links.length);
+  const options = sections.flatMap((section) => section.links);
+
+  // Keep the highlighted option visible while arrowing through the list
+  useEffect(() => {
+    document
+      .getElementById(`${listboxId}-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, listboxId]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % Math.max(options.length, 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex(
+          (index) =>
+            (index - 1 + Math.max(options.length, 1)) %
+            Math.max(options.length, 1),
+        );
+        break;
+      case "Enter": {
+        const link = options[activeIndex];
+        if (link) {
+          e.preventDefault();
+          onSelect(link);
+        }
+        break;
+      }
+    }
+  };
+
+  return (
+    <motion.div
+      ref={rootRef}
+      className="fixed inset-0 flex items-start justify-center p-4 pt-[15vh]"
+      style={{ zIndex }}
+      data-nav-theme={themeAttribute}
+      dir={dir}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration }}
+    >
+      <div
+        className={`bg-nav-backdrop absolute inset-0 ${classNames.backdrop ?? ""}`}
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-label={messages.searchLinks}
+        className={`bg-nav-surface text-nav-foreground ring-nav-border relative w-full max-w-lg overflow-hidden rounded-xl shadow-2xl ring-1 ${classNames.panel ?? ""}`}
+        initial={{ y: -8, scale: 0.98 }}
+        animate={{ y: 0, scale: 1 }}
+        exit={{ y: -8, scale: 0.98 }}
+        transition={{ duration }}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="border-nav-border flex items-center gap-3 border-b px-4">
+          <Search
+            className="text-nav-muted h-5 w-5 shrink-0"
+            aria-hidden="true"
+          />
+          <input
+            type="text"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={
+              options.length ? optionId(activeIndex) : undefined
+            }
+            aria-label={messages.searchLinks}
+            placeholder={messages.searchPlaceholder}
+            autoComplete="off"
+            spellCheck={false}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            className="placeholder:text-nav-muted w-full bg-transparent py-4 focus:outline-none"
+          />
+        </div>
+
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={messages.searchResults}
+          data-scroll-lock-scrollable=""
+          className="max-h-80 overflow-y-auto p-2"
+        >
+          {sections.map((section, sectionIndex) => {
+            // Options are numbered across sections for aria-activedescendant
+            const offset = sections
+              .slice(0, sectionIndex)
+              .reduce((count, previous) => count + previous.links.length, 0);
+            return (
+              <li key={section.heading} role="presentation">
+                <p
+                  id={`${listboxId}-heading-${sectionIndex}`}
+                  className="text-nav-muted px-3 pt-2 pb-1 text-xs font-semibold tracking-wide uppercase"
+                >
+                  {section.heading}
+                </p>
+                <ul
+                  role="group"
+                  aria-labelledby={`${listboxId}-heading-${sectionIndex}`}
+                >
+                  {section.links.map((link, linkIndex) => {
+                    const optionIndex = offset + linkIndex;
+                    const isActive = optionIndex === activeIndex;
+                    const Icon = link.icon;
+                    return (
+                      <li
+                        key={link.id}
+                        id={optionId(optionIndex)}
+                        role="option"
+                        aria-selected={isActive}
+                        onPointerMove={() => setActiveIndex(optionIndex)}
+                        onClick={() => onSelect(link)}
+                        className={`flex cursor-pointer items-center gap-3 rounded-lg px-3 py-2 ${
+                          isActive
+                            ? "bg-nav-accent text-nav-accent-foreground"
+                            : ""
+                        }`}
+                      >
+                        {Icon && (
+                          <Icon
+                            className="h-4 w-4 shrink-0"
+                            aria-hidden="true"
+                          />
+                        )}
+                        <span className="flex-1 truncate">{link.label}</span>
+                        <span
+                          className={`truncate text-xs ${isActive ? "" : "text-nav-muted"}`}
+                        >
+                          {link.href}
+                        </span>
+                        {isActive && (
+                          <CornerDownLeft
+                            className="h-4 w-4 shrink-0"
+                            aria-hidden="true"
+                          />
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+
+        {!options.length && (
+          <p className="text-nav-muted px-4 pb-6 text-center" role="status">
+            {formatMessage(messages.noMatches, { query })}
+          </p>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CommandPalette;
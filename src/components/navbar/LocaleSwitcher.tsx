@@ -0,0 +1,48 @@
+"use client";
+
+import { Languages } from "lucide-react";
+
+import { type NavLocale } from "./types";
+
+interface LocaleSwitcherProps {
+  locales: NavLocale[];
+  value: string;
+  onChange: (locale: string) => void;
+  label: string; // Accessible name, e.g. the `language` message
+  className?: string;
+}
+
+// Native select so keyboard, screen reader and mobile pickers work out of
+// the box; each option carries its own `lang`
+const LocaleSwitcher: React.FC<LocaleSwitcherProps> = ({
+  locales,
+  value,
+  onChange,
+  label,
+  className = "",
+}) => (
+  <label
+    className={`hover:bg-nav-hover focus-within:ring-nav-ring relative flex min-h-11 items-center gap-2 rounded-lg px-2 focus-within:ring-2 ${className}`}
+  >
+    <Languages className="text-nav-muted h-5 w-5 shrink-0" aria-hidden="true" />
+    <span className="sr-only">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="cursor-pointer appearance-none bg-transparent py-2 pe-1 text-sm focus:outline-none"
+    >
+      {locales.map((locale) => (
+        <option
+          key={locale.code}
+          value={locale.code}
+          lang={locale.code}
+          className="bg-nav-surface"
+        >
+          {locale.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default LocaleSwitcher;
@@ -0,0 +1,1692 @@
+"use client";
+
+import { memo, useCallback, useEffect, useId, useMemo, useRef } from "react";
+import {
+  animate,
+  motion,
+  AnimatePresence,
+  MotionConfig,
+  useDragControls,
+  useMotionValue,
+  type HTMLMotionProps,
+  type PanInfo,
+  type Transition,
+  type Variants,
+} from "framer-motion";
+import Link from "next/link";
+import { createPortal } from "react-dom";
+import {
+  ArrowLeft,
+  ChevronDown,
+  ChevronRight,
+  Ellipsis,
+  ExternalLink,
+  Menu,
+  Search,
+  X,
+} from "lucide-react";
+
+import {
+  getDrawerTransition,
+  getDrawerVariants,
+  getIndicatorTransition,
+  getStaggerVariants,
+} from "./animations";
+import CommandPalette from "./CommandPalette";
+import LocaleSwitcher from "./LocaleSwitcher";
+import {
+  type NavAction,
+  type NavbarClassNames,
+  type NavbarMessages,
+  type NavbarProps,
+  type NavLink,
+  type NavMode,
+  type NavUser,
+  type TextDirection,
+  type UserMenuItem,
+} from "./types";
+import { useRovingFocus } from "./hooks";
+import { useNavbar, type UseNavbarReturn } from "./useNavbar";
+import {
+  getInitials,
+  isLinkActive,
+  linkClass,
+  resolveResponsive,
+  towardsEdge,
+} from "./utils";
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const MotionLink = motion.create(Link);
+
+type GetLinkProps = UseNavbarReturn["getLinkProps"];
+type GetItemId = UseNavbarReturn["getItemId"];
+
+const focusFirstItem = (container: HTMLElement | null) =>
+  container?.querySelector<HTMLElement>("[data-roving-item]")?.focus();
+
+// Renders next/link for routes in multipage mode, otherwise a plain anchor
+// (in-page, external, download or disabled)
+const NavAnchor: React.FC<
+  Omit<HTMLMotionProps<"a">, "href" | "onClick"> & {
+    link: NavLink;
+    mode: NavMode;
+    linkProps: ReturnType<GetLinkProps>;
+  }
+> = ({ link, mode, linkProps, className, ...props }) => {
+  const { href, ...rest } = linkProps;
+  const anchorClass = `${className ?? ""} aria-disabled:cursor-not-allowed aria-disabled:opacity-50`;
+
+  return mode === "multipage" && href && !link.external && !link.download ? (
+    <MotionLink
+      prefetch={link.prefetch}
+      href={href}
+      {...rest}
+      {...props}
+      className={anchorClass}
+    />
+  ) : (
+    <motion.a {...linkProps} {...props} className={anchorClass} />
+  );
+};
+
+// Label with the link's icon, new-tab marker and badge. The badge is a
+// polite live region so count changes are announced.
+const LinkContent: React.FC<{
+  link: NavLink;
+  newTabLabel: string;
+  showIcon?: boolean;
+}> = ({ link, newTabLabel, showIcon = true }) => {
+  const Icon = link.icon;
+  return (
+    <>
+      {showIcon && Icon && (
+        <Icon className="h-4 w-4 shrink-0" aria-hidden="true" />
+      )}
+      {link.label}
+      {link.external && (
+        <>
+          <ExternalLink
+            className="h-3.5 w-3.5 shrink-0 opacity-70"
+            aria-hidden="true"
+          />
+          <span className="sr-only">{newTabLabel}</span>
+        </>
+      )}
+      {link.badge !== undefined && (
+        <span
+          aria-live="polite"
+          aria-atomic="true"
+          className="bg-nav-accent-subtle text-nav-accent min-w-5 rounded-full px-1.5 text-center text-xs font-semibold"
+        >
+          {link.badge}
+        </span>
+      )}
+    </>
+  );
+};
+
+interface NavItemProps {
+  mode: NavMode;
+  classNames: NavbarClassNames;
+  messages: NavbarMessages;
+  link: NavLink;
+  activeLink: string;
+  getLinkProps: GetLinkProps;
+}
+
+// Shared-layout highlight for the "pill" active indicator
+interface ActivePillProps {
+  layoutId: string;
+  transition: Transition;
+}
+
+// Rendered inside the active top-level item only; framer-motion glides it
+// from the previous item because they share a layoutId
+const ActivePill: React.FC<ActivePillProps> = ({ layoutId, transition }) => (
+  <motion.span
+    layoutId={layoutId}
+    className="bg-nav-accent absolute inset-0 -z-10 rounded-lg"
+    transition={transition}
+    aria-hidden="true"
+  />
+);
+
+// Top-level desktop item colors; with a pill the background lives on it
+const desktopItemClass = (isActive: boolean, pill: ActivePillProps | null) =>
+  isActive
+    ? `${pill ? "" : "bg-nav-accent"} text-nav-accent-foreground font-semibold`
+    : "text-nav-foreground hover:bg-nav-hover";
+
+// Plain desktop bar link
+const DesktopLink = memo<
+  NavItemProps & {
+    isScrolled: boolean;
+    duration: number;
+    pill: ActivePillProps | null;
+  }
+>(
+  ({
+    mode,
+    classNames,
+    messages,
+    link,
+    activeLink,
+    getLinkProps,
+    isScrolled,
+    duration,
+    pill,
+  }) => {
+    const isActive = isLinkActive(link, activeLink);
+    return (
+      <li>
+        <NavAnchor
+          link={link}
+          mode={mode}
+          linkProps={getLinkProps(link)}
+          className={`focus:ring-nav-ring relative isolate flex items-center gap-1.5 rounded-lg px-4 py-2 transition-colors focus:ring-2 focus:outline-none ${desktopItemClass(
+            isActive,
+            pill,
+          )} ${linkClass(classNames, isActive)}`}
+          animate={{
+            paddingTop: isScrolled ? "0.5rem" : "0.75rem",
+            paddingBottom: isScrolled ? "0.5rem" : "0.75rem",
+          }}
+          transition={{ duration }}
+        >
+          {isActive && pill && <ActivePill {...pill} />}
+          <LinkContent link={link} newTabLabel={messages.opensInNewTab} />
+        </NavAnchor>
+      </li>
+    );
+  },
+);
+DesktopLink.displayName = "DesktopLink";
+
+// Desktop dropdown (disclosure navigation pattern)
+const DesktopDropdown = memo<
+  NavItemProps & {
+    getItemId: GetItemId;
+    isOpen: boolean;
+    onToggle: (id: string, open: boolean) => void;
+    isRoving: boolean;
+    isScrolled: boolean;
+    duration: number;
+    pill: ActivePillProps | null;
+  }
+>(
+  ({
+    mode,
+    classNames,
+    messages,
+    link,
+    activeLink,
+    getLinkProps,
+    getItemId,
+    isRoving,
+    isOpen,
+    onToggle,
+    isScrolled,
+    duration,
+    pill,
+  }) => {
+    const setOpen = useCallback(
+      (open: boolean) => onToggle(link.id, open),
+      [onToggle, link.id],
+    );
+    const itemRef = useRef<HTMLLIElement | null>(null);
+    const triggerRef = useRef<HTMLButtonElement | null>(null);
+    const panelListRef = useRovingFocus(isRoving, "vertical");
+    const isActive = isLinkActive(link, activeLink);
+    const panelId = getItemId("dropdown", link.id);
+
+    // Close on outside click
+    useEffect(() => {
+      if (!isOpen) return;
+
+      const handlePointerDown = (e: PointerEvent) => {
+        if (!itemRef.current?.contains(e.target as Node)) {
+          setOpen(false);
+        }
+      };
+
+      document.addEventListener("pointerdown", handlePointerDown);
+      return () =>
+        document.removeEventListener("pointerdown", handlePointerDown);
+    }, [isOpen, setOpen]);
+
+    // Close on Escape and return focus to the trigger; in roving mode
+    // ArrowDown on the trigger opens the panel and enters it
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === "Escape" && isOpen) {
+        e.stopPropagation();
+        setOpen(false);
+        triggerRef.current?.focus();
+      } else if (
+        e.key === "ArrowDown" &&
+        isRoving &&
+        e.target === triggerRef.current
+      ) {
+        e.preventDefault();
+        setOpen(true);
+        requestAnimationFrame(() =>
+          focusFirstItem(document.getElementById(panelId)),
+        );
+      }
+    };
+
+    // Close when focus leaves the item entirely
+    const handleBlur = (e: React.FocusEvent) => {
+      if (!itemRef.current?.contains(e.relatedTarget as Node | null)) {
+        setOpen(false);
+      }
+    };
+
+    const renderChildren = (children: NavLink[], depth: number) => (
+      <ul className={depth > 0 ? "border-nav-border ms-3 border-s ps-2" : ""}>
+        {children.map((child) => {
+          const isChildActive = isLinkActive(child, activeLink);
+          return (
+            <li key={child.id}>
+              <NavAnchor
+                link={child}
+                mode={mode}
+                linkProps={getLinkProps(child, {
+                  onClick: () => setOpen(false),
+                })}
+                className={`focus:ring-nav-ring flex items-center gap-2 rounded-md px-3 py-2 text-sm whitespace-nowrap transition-colors focus:ring-2 focus:outline-none ${
+                  isChildActive
+                    ? "bg-nav-accent text-nav-accent-foreground font-semibold"
+                    : "text-nav-foreground hover:bg-nav-hover"
+                } ${linkClass(classNames, isChildActive)}`}
+              >
+                <LinkContent
+                  link={child}
+                  newTabLabel={messages.opensInNewTab}
+                />
+              </NavAnchor>
+              {child.children?.length
+                ? renderChildren(child.children, depth + 1)
+                : null}
+            </li>
+          );
+        })}
+      </ul>
+    );
+
+    return (
+      <li
+        ref={itemRef}
+        className="relative"
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+      >
+        <motion.button
+          ref={triggerRef}
+          type="button"
+          onClick={() => setOpen(!isOpen)}
+          disabled={link.disabled}
+          aria-expanded={isOpen}
+          aria-controls={panelId}
+          data-active={isActive || undefined}
+          data-roving-item={link.disabled ? undefined : ""}
+          className={`focus:ring-nav-ring relative isolate flex items-center gap-1.5 rounded-lg px-4 py-2 transition-colors focus:ring-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 ${desktopItemClass(
+            isActive,
+            pill,
+          )} ${linkClass(classNames, isActive)}`}
+          animate={{
+            paddingTop: isScrolled ? "0.5rem" : "0.75rem",
+            paddingBottom: isScrolled ? "0.5rem" : "0.75rem",
+          }}
+          transition={{ duration }}
+        >
+          {isActive && pill && <ActivePill {...pill} />}
+          <LinkContent link={link} newTabLabel={messages.opensInNewTab} />
+          <ChevronDown
+            className={`h-4 w-4 transition-transform ${isOpen ? "rotate-180" : ""}`}
+            aria-hidden="true"
+          />
+        </motion.button>
+
+        <AnimatePresence>
+          {isOpen && (
+            <motion.div
+              ref={panelListRef}
+              id={panelId}
+              className="bg-nav-surface ring-nav-border absolute start-0 top-full mt-2 min-w-48 rounded-lg p-2 shadow-lg ring-1"
+              initial={{ opacity: 0, y: -4 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -4 }}
+              transition={{ duration }}
+            >
+              {renderChildren(link.children ?? [], 0)}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </li>
+    );
+  },
+);
+DesktopDropdown.displayName = "DesktopDropdown";
+
+// Mega menu entry: icon, label and optional description
+const MegaMenuEntry: React.FC<
+  NavItemProps & { onSelect?: () => void; size?: "sm" | "lg" }
+> = ({
+  mode,
+  classNames,
+  messages,
+  link,
+  activeLink,
+  getLinkProps,
+  onSelect,
+  size = "sm",
+}) => {
+  const isActive = isLinkActive(link, activeLink);
+  const Icon = link.icon;
+
+  return (
+    <NavAnchor
+      link={link}
+      mode={mode}
+      linkProps={getLinkProps(link, { onClick: onSelect })}
+      className={`focus:ring-nav-ring flex gap-3 rounded-lg p-3 transition-colors focus:ring-2 focus:outline-none ${
+        isActive ? "bg-nav-accent-subtle" : "hover:bg-nav-hover"
+      } ${linkClass(classNames, isActive)}`}
+    >
+      {Icon && (
+        <Icon
+          className={`mt-0.5 h-5 w-5 shrink-0 ${isActive ? "text-nav-accent" : "text-nav-muted"}`}
+          aria-hidden="true"
+        />
+      )}
+      <span>
+        <span
+          className={`flex items-center gap-2 ${size === "lg" ? "text-lg" : "text-sm"} ${
+            isActive
+              ? "text-nav-accent font-semibold"
+              : "text-nav-foreground font-medium"
+          }`}
+        >
+          <LinkContent
+            link={link}
+            newTabLabel={messages.opensInNewTab}
+            showIcon={false}
+          />
+        </span>
+        {link.description && (
+          <span className="text-nav-muted mt-0.5 block text-sm">
+            {link.description}
+          </span>
+        )}
+      </span>
+    </NavAnchor>
+  );
+};
+
+// Desktop mega menu: full-width panel under the bar with hover intent
+const DesktopMegaMenu = memo<
+  NavItemProps & {
+    getItemId: GetItemId;
+    isOpen: boolean;
+    onToggle: (id: string, open: boolean) => void;
+    isRoving: boolean;
+    isScrolled: boolean;
+    duration: number;
+    hoverDelay: number;
+    pill: ActivePillProps | null;
+  }
+>(
+  ({
+    mode,
+    classNames,
+    messages,
+    link,
+    activeLink,
+    getLinkProps,
+    getItemId,
+    isRoving,
+    isOpen,
+    onToggle,
+    isScrolled,
+    duration,
+    hoverDelay,
+    pill,
+  }) => {
+    const setOpen = useCallback(
+      (open: boolean) => onToggle(link.id, open),
+      [onToggle, link.id],
+    );
+    const itemRef = useRef<HTMLLIElement | null>(null);
+    const triggerRef = useRef<HTMLButtonElement | null>(null);
+    const panelListRef = useRovingFocus(isRoving, "vertical");
+    const hoverTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const isActive = isLinkActive(link, activeLink);
+    const panelId = getItemId("mega-menu", link.id);
+    const megaMenu = link.megaMenu;
+
+    const clearHoverTimer = () => {
+      if (hoverTimer.current) clearTimeout(hoverTimer.current);
+      hoverTimer.current = null;
+    };
+
+    // Only open/close once the pointer has rested for `hoverDelay` ms
+    const scheduleToggle = (open: boolean) => {
+      clearHoverTimer();
+      hoverTimer.current = setTimeout(() => setOpen(open), hoverDelay);
+    };
+
+    useEffect(() => clearHoverTimer, []);
+
+    // Close on outside click
+    useEffect(() => {
+      if (!isOpen) return;
+
+      const handlePointerDown = (e: PointerEvent) => {
+        if (!itemRef.current?.contains(e.target as Node)) {
+          setOpen(false);
+        }
+      };
+
+      document.addEventListener("pointerdown", handlePointerDown);
+      return () =>
+        document.removeEventListener("pointerdown", handlePointerDown);
+    }, [isOpen, setOpen]);
+
+    // Close on Escape and return focus to the trigger; in roving mode
+    // ArrowDown on the trigger opens the panel and enters it
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === "Escape" && isOpen) {
+        e.stopPropagation();
+        clearHoverTimer();
+        setOpen(false);
+        triggerRef.current?.focus();
+      } else if (
+        e.key === "ArrowDown" &&
+        isRoving &&
+        e.target === triggerRef.current
+      ) {
+        e.preventDefault();
+        clearHoverTimer();
+        setOpen(true);
+        requestAnimationFrame(() =>
+          focusFirstItem(document.getElementById(panelId)),
+        );
+      }
+    };
+
+    // Close when focus leaves the item entirely
+    const handleBlur = (e: React.FocusEvent) => {
+      if (!itemRef.current?.contains(e.relatedTarget as Node | null)) {
+        setOpen(false);
+      }
+    };
+
+    if (!megaMenu) return null;
+
+    return (
+      // Not `relative`: the panel positions against the fixed bar to span its width
+      <li
+        ref={itemRef}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        onPointerEnter={(e) =>
+          e.pointerType === "mouse" && scheduleToggle(true)
+        }
+        onPointerLeave={(e) =>
+          e.pointerType === "mouse" && scheduleToggle(false)
+        }
+      >
+        <motion.button
+          ref={triggerRef}
+          type="button"
+          onClick={() => {
+            clearHoverTimer();
+            setOpen(!isOpen);
+          }}
+          disabled={link.disabled}
+          aria-expanded={isOpen}
+          aria-controls={panelId}
+          data-active={isActive || undefined}
+          data-roving-item={link.disabled ? undefined : ""}
+          className={`focus:ring-nav-ring relative isolate flex items-center gap-1.5 rounded-lg px-4 py-2 transition-colors focus:ring-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 ${desktopItemClass(
+            isActive,
+            pill,
+          )} ${linkClass(classNames, isActive)}`}
+          animate={{
+            paddingTop: isScrolled ? "0.5rem" : "0.75rem",
+            paddingBottom: isScrolled ? "0.5rem" : "0.75rem",
+          }}
+          transition={{ duration }}
+        >
+          {isActive && pill && <ActivePill {...pill} />}
+          <LinkContent link={link} newTabLabel={messages.opensInNewTab} />
+          <ChevronDown
+            className={`h-4 w-4 transition-transform ${isOpen ? "rotate-180" : ""}`}
+            aria-hidden="true"
+          />
+        </motion.button>
+
+        <AnimatePresence>
+          {isOpen && (
+            <motion.div
+              ref={panelListRef}
+              id={panelId}
+              className="border-nav-border bg-nav-surface absolute top-full right-0 left-0 border-t shadow-lg"
+              initial={{ opacity: 0, y: -8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              transition={{ duration }}
+            >
+              <div className="container mx-auto flex gap-8 px-4 py-6">
+                <div className="grid flex-1 auto-cols-fr grid-flow-col gap-6">
+                  {megaMenu.columns.map((column) => (
+                    <div key={column.heading}>
+                      <p className="text-nav-muted mb-2 px-3 text-xs font-semibold tracking-wide uppercase">
+                        {column.heading}
+                      </p>
+                      <ul className="space-y-1">
+                        {column.links.map((child) => (
+                          <li key={child.id}>
+                            <MegaMenuEntry
+                              mode={mode}
+                              classNames={classNames}
+                              messages={messages}
+                              link={child}
+                              activeLink={activeLink}
+                              getLinkProps={getLinkProps}
+                              onSelect={() => setOpen(false)}
+                            />
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+                {megaMenu.featured && (
+                  <div className="w-72 shrink-0">{megaMenu.featured}</div>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </li>
+    );
+  },
+);
+DesktopMegaMenu.displayName = "DesktopMegaMenu";
+
+// Mobile drill-down view for a mega menu
+const MobileDrillDown: React.FC<
+  NavItemProps & {
+    onBack: () => void;
+    duration: number;
+    direction: TextDirection;
+  }
+> = ({
+  mode,
+  classNames,
+  messages,
+  link,
+  activeLink,
+  getLinkProps,
+  onBack,
+  duration,
+  direction,
+}) => {
+  const backRef = useRef<HTMLButtonElement | null>(null);
+
+  // Move focus into the new view
+  useEffect(() => {
+    backRef.current?.focus();
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ x: direction === "rtl" ? "-30%" : "30%", opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      transition={{ duration }}
+    >
+      <button
+        ref={backRef}
+        type="button"
+        onClick={onBack}
+        data-roving-item=""
+        className={`text-nav-foreground hover:bg-nav-hover focus:ring-nav-ring mb-4 flex items-center gap-2 rounded-lg px-4 py-3 focus:ring-2 focus:outline-none ${classNames.button ?? ""}`}
+      >
+        <ArrowLeft className="h-5 w-5 rtl:rotate-180" aria-hidden="true" />
+        {messages.back}
+      </button>
+      <p className="mb-4 px-4 text-2xl font-bold">{link.label}</p>
+
+      {link.megaMenu?.columns.map((column) => (
+        <div key={column.heading} className="mb-6">
+          <p className="text-nav-muted mb-2 px-4 text-xs font-semibold tracking-wide uppercase">
+            {column.heading}
+          </p>
+          <ul className="space-y-1">
+            {column.links.map((child) => (
+              <li key={child.id}>
+                <MegaMenuEntry
+                  mode={mode}
+                  classNames={classNames}
+                  messages={messages}
+                  link={child}
+                  activeLink={activeLink}
+                  getLinkProps={getLinkProps}
+                  size="lg"
+                />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      {link.megaMenu?.featured && (
+        <div className="px-4">{link.megaMenu.featured}</div>
+      )}
+    </motion.div>
+  );
+};
+
+// Mobile accordion item (recursive for deeper nesting); `variants` drives
+// the staggered entrance of top-level items
+const MobileNavItem = memo<
+  NavItemProps & {
+    getItemId: GetItemId;
+    expandedIds: string[];
+    onToggleGroup: (id: string) => void;
+    onDrillDown: (id: string) => void;
+    duration: number;
+    variants?: Variants;
+  }
+>(
+  ({
+    mode,
+    classNames,
+    messages,
+    link,
+    activeLink,
+    getLinkProps,
+    getItemId,
+    expandedIds,
+    onToggleGroup,
+    onDrillDown,
+    duration,
+    variants,
+  }) => {
+    const isActive = isLinkActive(link, activeLink);
+
+    if (link.megaMenu) {
+      return (
+        <motion.li variants={variants}>
+          <button
+            id={getItemId("drill-down", link.id)}
+            type="button"
+            disabled={link.disabled}
+            data-active={isActive || undefined}
+            data-roving-item={link.disabled ? undefined : ""}
+            onClick={() => onDrillDown(link.id)}
+            className={`focus:ring-nav-ring flex w-full items-center justify-between rounded-lg px-4 py-3 text-start text-lg transition-colors focus:ring-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 ${
+              isActive ? "text-nav-accent font-semibold" : "text-nav-foreground"
+            } hover:bg-nav-hover ${linkClass(classNames, isActive)}`}
+          >
+            <span className="flex items-center gap-3">
+              <LinkContent link={link} newTabLabel={messages.opensInNewTab} />
+            </span>
+            <ChevronRight
+              className="h-5 w-5 rtl:rotate-180"
+              aria-hidden="true"
+            />
+          </button>
+        </motion.li>
+      );
+    }
+
+    if (!link.children?.length) {
+      return (
+        <motion.li variants={variants}>
+          <NavAnchor
+            link={link}
+            mode={mode}
+            linkProps={getLinkProps(link)}
+            className={`focus:ring-nav-ring flex items-center gap-3 rounded-lg px-4 py-3 text-lg transition-colors focus:ring-2 focus:outline-none ${
+              isActive
+                ? "bg-nav-accent text-nav-accent-foreground font-semibold"
+                : "text-nav-foreground hover:bg-nav-hover"
+            } ${linkClass(classNames, isActive)}`}
+          >
+            <LinkContent link={link} newTabLabel={messages.opensInNewTab} />
+          </NavAnchor>
+        </motion.li>
+      );
+    }
+
+    const isExpanded = expandedIds.includes(link.id);
+    const groupId = getItemId("accordion", link.id);
+
+    return (
+      <motion.li variants={variants}>
+        <button
+          type="button"
+          onClick={() => onToggleGroup(link.id)}
+          disabled={link.disabled}
+          data-active={isActive || undefined}
+          data-roving-item={link.disabled ? undefined : ""}
+          aria-expanded={isExpanded}
+          aria-controls={groupId}
+          className={`focus:ring-nav-ring flex w-full items-center justify-between rounded-lg px-4 py-3 text-start text-lg transition-colors focus:ring-2 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 ${
+            isActive ? "text-nav-accent font-semibold" : "text-nav-foreground"
+          } hover:bg-nav-hover ${linkClass(classNames, isActive)}`}
+        >
+          <span className="flex items-center gap-3">
+            <LinkContent link={link} newTabLabel={messages.opensInNewTab} />
+          </span>
+          <ChevronDown
+            className={`h-5 w-5 transition-transform ${isExpanded ? "rotate-180" : ""}`}
+            aria-hidden="true"
+          />
+        </button>
+
+        <AnimatePresence initial={false}>
+          {isExpanded && (
+            <motion.ul
+              id={groupId}
+              className="border-nav-border ms-4 mt-1 space-y-1 overflow-hidden border-s ps-2"
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: "auto", opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration }}
+            >
+              {link.children.map((child) => (
+                <MobileNavItem
+                  key={child.id}
+                  mode={mode}
+                  classNames={classNames}
+                  messages={messages}
+                  link={child}
+                  activeLink={activeLink}
+                  getLinkProps={getLinkProps}
+                  getItemId={getItemId}
+                  expandedIds={expandedIds}
+                  onToggleGroup={onToggleGroup}
+                  onDrillDown={onDrillDown}
+                  duration={duration}
+                />
+              ))}
+            </motion.ul>
+          )}
+        </AnimatePresence>
+      </motion.li>
+    );
+  },
+);
+MobileNavItem.displayName = "MobileNavItem";
+
+// User picture, or initials on the accent color without one
+const Avatar: React.FC<{ user: NavUser; size?: "sm" | "lg" }> = ({
+  user,
+  size = "sm",
+}) => (
+  <span
+    aria-hidden="true"
+    className={`bg-nav-accent text-nav-accent-foreground flex shrink-0 items-center justify-center rounded-full bg-cover bg-center font-semibold ${
+      size === "lg" ? "h-10 w-10" : "h-8 w-8 text-sm"
+    }`}
+    style={
+      user.image
+        ? { backgroundImage: `url(${JSON.stringify(user.image)})` }
+        : undefined
+    }
+  >
+    {!user.image && getInitials(user.name)}
+  </span>
+);
+
+// User menu entry: a link, or a button for actions like "Sign out"
+const UserMenuEntry: React.FC<
+  Omit<NavItemProps, "link"> & {
+    item: UserMenuItem;
+    onAction: (action: NavAction) => void;
+    onSelect?: () => void;
+    className: string;
+  }
+> = ({
+  mode,
+  classNames,
+  messages,
+  item,
+  activeLink,
+  getLinkProps,
+  onAction,
+  onSelect,
+  className,
+}) => {
+  const entryClass = `focus:ring-nav-ring hover:bg-nav-hover flex w-full items-center gap-3 rounded-md text-start transition-colors focus:ring-2 focus:outline-none ${className}`;
+
+  if (!("href" in item)) {
+    const Icon = item.icon;
+    return (
+      <button
+        type="button"
+        onClick={() => onAction(item)}
+        data-roving-item=""
+        className={`text-nav-foreground ${entryClass}`}
+      >
+        {Icon && <Icon className="h-4 w-4 shrink-0" aria-hidden="true" />}
+        {item.label}
+      </button>
+    );
+  }
+
+  const isActive = isLinkActive(item, activeLink);
+  return (
+    <NavAnchor
+      link={item}
+      mode={mode}
+      linkProps={getLinkProps(item, { onClick: onSelect })}
+      className={`${entryClass} ${
+        isActive ? "text-nav-accent font-semibold" : "text-nav-foreground"
+      } ${linkClass(classNames, isActive)}`}
+    >
+      <LinkContent link={item} newTabLabel={messages.opensInNewTab} />
+    </NavAnchor>
+  );
+};
+
+// Desktop avatar dropdown (disclosure pattern, like the link dropdowns)
+const DesktopUserMenu: React.FC<
+  Omit<NavItemProps, "link"> & {
+    user: NavUser;
+    items: UserMenuItem[];
+    isOpen: boolean;
+    onToggle: (open: boolean) => void;
+    onAction: (action: NavAction) => void;
+    toggleProps: ReturnType<UseNavbarReturn["getUserMenuToggleProps"]>;
+    panelProps: ReturnType<UseNavbarReturn["getUserMenuPanelProps"]>;
+    isRoving: boolean;
+    duration: number;
+  }
+> = ({
+  mode,
+  classNames,
+  messages,
+  activeLink,
+  getLinkProps,
+  user,
+  items,
+  isOpen,
+  onToggle,
+  onAction,
+  toggleProps,
+  panelProps,
+  isRoving,
+  duration,
+}) => {
+  const itemRef = useRef<HTMLDivElement | null>(null);
+  const triggerRef = useRef<HTMLButtonElement | null>(null);
+  const panelListRef = useRovingFocus(isRoving, "vertical");
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!itemRef.current?.contains(e.target as Node)) {
+        onToggle(false);
+      }
+    };
+
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => document.removeEventListener("pointerdown", handlePointerDown);
+  }, [isOpen, onToggle]);
+
+  // Close on Escape and return focus to the avatar; in roving mode
+  // ArrowDown on the avatar opens the panel and enters it
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape" && isOpen) {
+      e.stopPropagation();
+      onToggle(false);
+      triggerRef.current?.focus();
+    } else if (
+      e.key === "ArrowDown" &&
+      isRoving &&
+      e.target === triggerRef.current
+    ) {
+      e.preventDefault();
+      onToggle(true);
+      requestAnimationFrame(() =>
+        focusFirstItem(document.getElementById(panelProps.id)),
+      );
+    }
+  };
+
+  // Close when focus leaves the menu entirely
+  const handleBlur = (e: React.FocusEvent) => {
+    if (!itemRef.current?.contains(e.relatedTarget as Node | null)) {
+      onToggle(false);
+    }
+  };
+
+  return (
+    <div
+      ref={itemRef}
+      className="relative"
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+    >
+      <button
+        {...toggleProps}
+        ref={triggerRef}
+        className={`focus:ring-nav-ring flex min-h-11 min-w-11 items-center justify-center rounded-full focus:ring-2 focus:outline-none ${classNames.button ?? ""}`}
+      >
+        <Avatar user={user} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            {...panelProps}
+            ref={panelListRef}
+            className="bg-nav-surface ring-nav-border absolute end-0 top-full mt-2 min-w-56 rounded-lg p-2 shadow-lg ring-1"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration }}
+          >
+            <div className="border-nav-border mb-2 border-b px-3 pt-1 pb-3">
+              <p className="text-nav-foreground text-sm font-semibold">
+                {user.name}
+              </p>
+              {user.email && (
+                <p className="text-nav-muted text-sm">{user.email}</p>
+              )}
+            </div>
+            <ul>
+              {items.map((item) => (
+                <li key={item.id}>
+                  <UserMenuEntry
+                    mode={mode}
+                    classNames={classNames}
+                    messages={messages}
+                    item={item}
+                    activeLink={activeLink}
+                    getLinkProps={getLinkProps}
+                    onAction={onAction}
+                    onSelect={() => onToggle(false)}
+                    className="px-3 py-2 text-sm"
+                  />
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+// Account section at the bottom of the drawer
+const DrawerUserSection: React.FC<
+  Omit<NavItemProps, "link"> & {
+    user: NavUser;
+    items: UserMenuItem[];
+    onAction: (action: NavAction) => void;
+  }
+> = ({ user, items, ...entryProps }) => (
+  <div
+    role="group"
+    aria-label={entryProps.messages.account}
+    className="border-nav-border mt-8 border-t pt-6"
+  >
+    <div className="mb-4 flex items-center gap-3 px-4">
+      <Avatar user={user} size="lg" />
+      <div className="min-w-0">
+        <p className="truncate font-semibold">{user.name}</p>
+        {user.email && (
+          <p className="text-nav-muted truncate text-sm">{user.email}</p>
+        )}
+      </div>
+    </div>
+    <ul className="space-y-1">
+      {items.map((item) => (
+        <li key={item.id}>
+          <UserMenuEntry
+            {...entryProps}
+            item={item}
+            className="px-4 py-3 text-lg"
+          />
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Bottom tab bar entries: icon over a short label, badge on the icon
+const tabClass = (isActive: boolean) =>
+  `focus:ring-nav-ring flex min-h-14 w-full flex-col items-center justify-center gap-0.5 px-1 text-xs font-medium transition-colors focus:ring-2 focus:outline-none focus:ring-inset ${
+    isActive ? "text-nav-accent" : "text-nav-muted hover:text-nav-foreground"
+  }`;
+
+const BottomTab = memo<NavItemProps>(
+  ({ mode, classNames, messages, link, activeLink, getLinkProps }) => {
+    const isActive = isLinkActive(link, activeLink);
+    const Icon = link.icon;
+    return (
+      <li className="min-w-0 flex-1">
+        <NavAnchor
+          link={link}
+          mode={mode}
+          linkProps={getLinkProps(link)}
+          className={`${tabClass(isActive)} ${linkClass(classNames, isActive)}`}
+        >
+          <span className="relative">
+            {Icon ? (
+              <Icon className="h-6 w-6" aria-hidden="true" />
+            ) : (
+              <span className="block h-6 w-6" aria-hidden="true" />
+            )}
+            {link.badge !== undefined && (
+              <span
+                aria-live="polite"
+                aria-atomic="true"
+                className="bg-nav-accent text-nav-accent-foreground absolute -end-2.5 -top-1.5 min-w-4 rounded-full px-1 text-center text-[0.625rem] leading-4 font-semibold"
+              >
+                {link.badge}
+              </span>
+            )}
+          </span>
+          <span className="max-w-full truncate">{link.label}</span>
+          {link.external && (
+            <span className="sr-only">{messages.opensInNewTab}</span>
+          )}
+        </NavAnchor>
+      </li>
+    );
+  },
+);
+BottomTab.displayName = "BottomTab";
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const Navbar: React.FC<NavbarProps> = ({
+  config = {},
+  logo = "LOGO",
+  links,
+  onNavigate,
+  onLinkSelect,
+  onOpen,
+  onClose,
+  onSectionChange,
+  actions,
+  user,
+  userMenu,
+  locales = [],
+  onLocaleChange,
+}) => {
+  const {
+    config: {
+      mode,
+      side,
+      width,
+      height,
+      initialBg,
+      scrolledBg,
+      logoScale,
+      megaMenuHoverDelay,
+      classNames,
+      enableCommandPalette,
+      swipeToClose,
+      drawerAnimation,
+      drawerVariants,
+      linkStagger,
+      activeIndicator,
+      locale,
+      zIndex,
+    },
+    getItemId,
+    portalTarget,
+    links: visibleLinks,
+    barLinks,
+    breakpointCss,
+    hasTabBar,
+    tabLinks,
+    drawerLinks,
+    isTabBarHidden,
+    isMoreActive,
+    activeBreakpoints,
+    isOpen,
+    isScrolled,
+    isHidden,
+    activeLink,
+    duration,
+    menuOrigin,
+    closeMenu,
+    isSwipeDismiss,
+    isRoving,
+    openDropdownId,
+    toggleDropdown,
+    expandedIds,
+    toggleGroup,
+    drillDownLink,
+    setDrillDownId,
+    drillUp,
+    user: signedInUser,
+    userMenu: userMenuItems,
+    isUserMenuOpen,
+    setUserMenuOpen,
+    selectUserAction,
+    isPaletteOpen,
+    closePalette,
+    selectPaletteLink,
+    recentHrefs,
+    paletteShortcut,
+    themeAttribute,
+    direction,
+    dirAttribute,
+    messages,
+    getNavProps,
+    getToggleProps,
+    getTabBarProps,
+    getMoreTabProps,
+    getPanelProps,
+    getBackdropProps,
+    getCloseProps,
+    getLinkProps,
+    getSearchTriggerProps,
+    getBreakpointProps,
+    getBarListProps,
+    getDrawerListProps,
+    getUserMenuToggleProps,
+    getUserMenuPanelProps,
+  } = useNavbar(config, links, {
+    onNavigate,
+    onLinkSelect,
+    onOpen,
+    onClose,
+    onSectionChange,
+    user,
+    userMenu,
+  });
+
+  // Drawer preset (or custom states), staggered links and active pill.
+  // `duration` is 0 under reduced motion, which makes all of them instant.
+  // Memoized so the link items they are passed to keep equal props.
+  const panelVariants = useMemo(
+    () => getDrawerVariants(drawerAnimation, side, menuOrigin, drawerVariants),
+    [drawerAnimation, side, menuOrigin, drawerVariants],
+  );
+  const panelTransition = getDrawerTransition(drawerAnimation, duration);
+  const stagger = useMemo(
+    () => getStaggerVariants(linkStagger, duration, side),
+    [linkStagger, duration, side],
+  );
+  const pillId = useId();
+  const pill = useMemo(
+    () =>
+      activeIndicator === "pill"
+        ? {
+            layoutId: `${pillId}-active-pill`,
+            transition: getIndicatorTransition(duration),
+          }
+        : null,
+    [activeIndicator, pillId, duration],
+  );
+
+  const hasLocaleSwitcher = locales.length > 1 && !!onLocaleChange;
+  // Overlays render into the portal container (when it exists), outside any
+  // stacking context or overflow clip of the navbar's parents
+  const portal = (children: React.ReactNode) =>
+    portalTarget ? createPortal(children, portalTarget) : children;
+
+  const localeSwitcher = (className?: string) =>
+    hasLocaleSwitcher &&
+    onLocaleChange && (
+      <LocaleSwitcher
+        locales={locales}
+        value={locale}
+        onChange={onLocaleChange}
+        label={messages.language}
+        className={className}
+      />
+    );
+
+  // Background class
+  const bgClass = isScrolled ? scrolledBg : initialBg;
+
+  // Logo scale
+  const currentLogoScale = isScrolled ? logoScale.scrolled : logoScale.initial;
+
+  // Drawer size for the current breakpoint
+  const isHorizontal = side === "left" || side === "right";
+  const panelSize = isHorizontal
+    ? { width: resolveResponsive(width, activeBreakpoints) }
+    : { height: resolveResponsive(height, activeBreakpoints) };
+
+  // Swipe to close: the panel follows the finger towards its edge, rubber-
+  // bands the other way, and the backdrop fades with the distance dragged
+  const dragControls = useDragControls();
+  const panelOffset = useMotionValue(0);
+  const backdropOpacity = useMotionValue(1);
+  const panelProps = getPanelProps();
+
+  useEffect(() => {
+    if (isOpen) backdropOpacity.set(1);
+  }, [isOpen, backdropOpacity]);
+
+  // "push": the bar and `[data-nav-push]` content follow the panel's size
+  const isPush = drawerAnimation === "push";
+  const pushOffset = useMotionValue(0);
+  const panelRef = panelProps.ref;
+
+  useEffect(() => {
+    if (!isPush) return;
+    const targets = () =>
+      document.querySelectorAll<HTMLElement>("[data-nav-push]");
+    const unsubscribe = pushOffset.on("change", (offset) =>
+      targets().forEach((target) => {
+        target.style.translate = isHorizontal
+          ? `${offset}px 0`
+          : `0 ${offset}px`;
+      }),
+    );
+    return () => {
+      unsubscribe();
+      targets().forEach((target) => (target.style.translate = ""));
+    };
+  }, [isPush, isHorizontal, pushOffset]);
+
+  useEffect(() => {
+    if (!isPush) return;
+    const panel = panelRef.current;
+    const size =
+      isOpen && panel
+        ? isHorizontal
+          ? panel.offsetWidth
+          : panel.offsetHeight
+        : 0;
+    const controls = animate(
+      pushOffset,
+      side === "left" || side === "top" ? size : -size,
+      getDrawerTransition("push", duration),
+    );
+    return () => controls.stop();
+  }, [isPush, isOpen, isHorizontal, side, duration, panelRef, pushOffset]);
+
+  const handlePanelDrag = (_: PointerEvent, info: PanInfo) => {
+    const panel = panelProps.ref.current;
+    const size = (isHorizontal ? panel?.offsetWidth : panel?.offsetHeight) ?? 0;
+    const progress = towardsEdge(side, info.offset) / Math.max(size, 1);
+    backdropOpacity.set(1 - Math.min(Math.max(progress, 0), 1));
+  };
+
+  const handlePanelDragEnd = (_: PointerEvent, info: PanInfo) => {
+    if (isSwipeDismiss(info.offset, info.velocity)) {
+      closeMenu();
+    } else {
+      animate(panelOffset, 0, { duration });
+      animate(backdropOpacity, 1, { duration });
+    }
+  };
+
+  // Vertical drawers scroll their content, so they drag from a handle only
+  const dragHandle = swipeToClose && !isHorizontal && (
+    <div
+      className={`bg-nav-surface sticky z-10 flex cursor-grab touch-none justify-center py-2 ${side === "bottom" ? "top-0" : "bottom-0"}`}
+      onPointerDown={(e) => dragControls.start(e)}
+      aria-hidden="true"
+    >
+      <span className="bg-nav-border h-1.5 w-12 rounded-full" />
+    </div>
+  );
+
+  return (
+    // Reduced motion from the first frame; `duration` only knows after hydration
+    <MotionConfig reducedMotion="user">
+      {/* Shows the desktop or mobile parts below, already in the server HTML */}
+      <style>{breakpointCss}</style>
+
+      {/* Top Navbar */}
+      <motion.nav
+        {...getNavProps()}
+        data-nav-push={isPush ? "" : undefined}
+        className={`text-nav-foreground fixed top-0 right-0 left-0 ps-[env(safe-area-inset-left)] pe-[env(safe-area-inset-right)] transition-[background-color,box-shadow] duration-300 ${bgClass} ${classNames.nav ?? ""}`}
+        style={{ zIndex: zIndex.bar }}
+        initial={false}
+        animate={{
+          paddingTop: isScrolled ? "0.75rem" : "1.25rem",
+          paddingBottom: isScrolled ? "0.75rem" : "1.25rem",
+          y: isHidden ? "-100%" : 0,
+        }}
+        transition={{ duration }}
+      >
+        {/* Clears the notch; the animated padding stays on the nav */}
+        <div className="container mx-auto mt-[env(safe-area-inset-top)] flex items-center justify-between px-4">
+          {/* Logo */}
+          <motion.div
+            className="text-xl font-bold"
+            animate={{ scale: currentLogoScale }}
+            transition={{ duration }}
+          >
+            {logo}
+          </motion.div>
+
+          <div className="flex items-center gap-2">
+            {/* Desktop Navigation - Hidden on mobile */}
+            <nav
+              {...getBreakpointProps("desktop")}
+              aria-label={messages.desktopNavigation}
+            >
+              <ul {...getBarListProps()} className="flex items-center gap-1">
+                {barLinks.map((link) => {
+                  if (link.megaMenu) {
+                    return (
+                      <DesktopMegaMenu
+                        key={link.id}
+                        mode={mode}
+                        classNames={classNames}
+                        messages={messages}
+                        link={link}
+                        activeLink={activeLink}
+                        getLinkProps={getLinkProps}
+                        getItemId={getItemId}
+                        isOpen={openDropdownId === link.id}
+                        isRoving={isRoving}
+                        onToggle={toggleDropdown}
+                        isScrolled={isScrolled}
+                        duration={duration}
+                        hoverDelay={megaMenuHoverDelay}
+                        pill={pill}
+                      />
+                    );
+                  }
+
+                  if (link.children?.length) {
+                    return (
+                      <DesktopDropdown
+                        key={link.id}
+                        mode={mode}
+                        classNames={classNames}
+                        messages={messages}
+                        link={link}
+                        activeLink={activeLink}
+                        getLinkProps={getLinkProps}
+                        getItemId={getItemId}
+                        isOpen={openDropdownId === link.id}
+                        isRoving={isRoving}
+                        onToggle={toggleDropdown}
+                        isScrolled={isScrolled}
+                        duration={duration}
+                        pill={pill}
+                      />
+                    );
+                  }
+
+                  return (
+                    <DesktopLink
+                      key={link.id}
+                      mode={mode}
+                      classNames={classNames}
+                      messages={messages}
+                      link={link}
+                      activeLink={activeLink}
+                      getLinkProps={getLinkProps}
+                      isScrolled={isScrolled}
+                      duration={duration}
+                      pill={pill}
+                    />
+                  );
+                })}
+              </ul>
+            </nav>
+
+            {/* Custom actions slot (sign-in button, etc.) */}
+            {actions}
+
+            {/* Locale switcher - in the drawer on mobile */}
+            {hasLocaleSwitcher && (
+              <div {...getBreakpointProps("desktop")} className="contents">
+                {localeSwitcher()}
+              </div>
+            )}
+
+            {/* Command palette trigger */}
+            {enableCommandPalette && (
+              <button
+                {...getSearchTriggerProps()}
+                className={`hover:bg-nav-hover focus:ring-nav-ring text-nav-muted flex min-h-11 min-w-11 items-center justify-center gap-2 rounded-lg p-2 focus:ring-2 focus:outline-none ${classNames.button ?? ""}`}
+              >
+                <Search className="h-5 w-5" aria-hidden="true" />
+                <kbd
+                  {...getBreakpointProps("desktop")}
+                  className="border-nav-border rounded border px-1.5 font-sans text-xs"
+                >
+                  {paletteShortcut}
+                </kbd>
+              </button>
+            )}
+
+            {/* User menu - in the drawer on mobile */}
+            {signedInUser && (
+              <div {...getBreakpointProps("desktop")} className="contents">
+                <DesktopUserMenu
+                  mode={mode}
+                  classNames={classNames}
+                  messages={messages}
+                  activeLink={activeLink}
+                  getLinkProps={getLinkProps}
+                  user={signedInUser}
+                  items={userMenuItems}
+                  isOpen={isUserMenuOpen}
+                  onToggle={setUserMenuOpen}
+                  onAction={selectUserAction}
+                  toggleProps={getUserMenuToggleProps()}
+                  panelProps={getUserMenuPanelProps()}
+                  isRoving={isRoving}
+                  duration={duration}
+                />
+              </div>
+            )}
+
+            {/* Hamburger Button - Visible on mobile only, "More" with tabs */}
+            {!hasTabBar && (
+              <button
+                {...getToggleProps()}
+                {...getBreakpointProps("mobile")}
+                className={`hover:bg-nav-hover focus:ring-nav-ring flex min-h-11 min-w-11 items-center justify-center rounded-lg p-2 focus:ring-2 focus:outline-none ${classNames.button ?? ""}`}
+              >
+                <Menu className="h-6 w-6" />
+              </button>
+            )}
+          </div>
+        </div>
+      </motion.nav>
+
+      {/* Bottom Tab Bar - mobile "bottom-tabs" layout */}
+      {hasTabBar && (
+        <motion.nav
+          {...getTabBarProps()}
+          className={`bg-nav-surface text-nav-foreground border-nav-border fixed right-0 bottom-0 left-0 border-t ps-[env(safe-area-inset-left)] pe-[env(safe-area-inset-right)] pb-[env(safe-area-inset-bottom)] ${classNames.nav ?? ""}`}
+          style={{ zIndex: zIndex.bar }}
+          initial={false}
+          animate={{ y: isTabBarHidden ? "100%" : 0 }}
+          transition={{ duration }}
+        >
+          <ul className="flex">
+            {tabLinks.map((link) => (
+              <BottomTab
+                key={link.id}
+                mode={mode}
+                classNames={classNames}
+                messages={messages}
+                link={link}
+                activeLink={activeLink}
+                getLinkProps={getLinkProps}
+              />
+            ))}
+            {(drawerLinks.length > 0 ||
+              !!signedInUser ||
+              hasLocaleSwitcher) && (
+              <li className="min-w-0 flex-1">
+                <button
+                  {...getMoreTabProps()}
+                  className={`${tabClass(isMoreActive || isOpen)} ${classNames.button ?? ""}`}
+                >
+                  <Ellipsis className="h-6 w-6" aria-hidden="true" />
+                  <span className="max-w-full truncate">{messages.more}</span>
+                </button>
+              </li>
+            )}
+          </ul>
+        </motion.nav>
+      )}
+
+      {/* Command Palette */}
+      {portal(
+        <AnimatePresence>
+          {isPaletteOpen && (
+            <CommandPalette
+              key="command-palette"
+              links={visibleLinks}
+              recentHrefs={recentHrefs}
+              onSelect={selectPaletteLink}
+              onClose={closePalette}
+              duration={duration}
+              themeAttribute={themeAttribute}
+              dir={dirAttribute}
+              classNames={classNames}
+              messages={messages}
+              zIndex={zIndex.palette}
+            />
+          )}
+        </AnimatePresence>,
+      )}
+
+      {/* Mobile Slide-in Menu */}
+      {portal(
+        <AnimatePresence onExitComplete={() => panelOffset.set(0)}>
+          {isOpen && (
+            <>
+              {/* Backdrop */}
+              <motion.div
+                {...getBackdropProps()}
+                className="fixed inset-0"
+                style={{ zIndex: zIndex.overlay }}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration }}
+              >
+                <motion.div
+                  className={`bg-nav-backdrop absolute inset-0 ${classNames.backdrop ?? ""}`}
+                  style={{ opacity: backdropOpacity }}
+                />
+              </motion.div>
+
+              {/* Menu Panel */}
+              <motion.div
+                {...panelProps}
+                className={`bg-nav-surface text-nav-foreground fixed max-w-full overflow-x-hidden overflow-y-auto shadow-2xl ${side === "left" ? "top-0 left-0" : ""} ${side === "right" ? "top-0 right-0" : ""} ${side === "top" ? "top-0 right-0 left-0" : ""} ${side === "bottom" ? "right-0 bottom-0 left-0" : ""} pt-[env(safe-area-inset-top)] pb-[env(safe-area-inset-bottom)] ${isHorizontal ? "h-screen" : "max-h-screen"} ${classNames.panel ?? ""}`}
+                style={{
+                  ...panelSize,
+                  ...(isHorizontal ? { x: panelOffset } : { y: panelOffset }),
+                  zIndex: zIndex.overlay,
+                }}
+                variants={panelVariants}
+                initial="initial"
+                animate="animate"
+                exit="exit"
+                transition={panelTransition}
+                drag={swipeToClose && (isHorizontal ? "x" : "y")}
+                dragControls={dragControls}
+                dragListener={isHorizontal}
+                dragConstraints={{ top: 0, right: 0, bottom: 0, left: 0 }}
+                dragElastic={{
+                  top: 0.1,
+                  right: 0.1,
+                  bottom: 0.1,
+                  left: 0.1,
+                  [side]: 1,
+                }}
+                dragMomentum={false}
+                onDrag={handlePanelDrag}
+                onDragEnd={handlePanelDragEnd}
+              >
+                {side === "bottom" && dragHandle}
+                {/* Close Button */}
+                <div className="flex justify-end p-4">
+                  <button
+                    {...getCloseProps()}
+                    className={`hover:bg-nav-hover focus:ring-nav-ring flex min-h-11 min-w-11 items-center justify-center rounded-lg p-2 focus:ring-2 focus:outline-none ${classNames.button ?? ""}`}
+                  >
+                    <X className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {/* Mobile Navigation Links */}
+                <nav {...getDrawerListProps()} className="px-8 pb-8">
+                  {drillDownLink ? (
+                    <MobileDrillDown
+                      mode={mode}
+                      classNames={classNames}
+                      messages={messages}
+                      link={drillDownLink}
+                      activeLink={activeLink}
+                      getLinkProps={getLinkProps}
+                      onBack={drillUp}
+                      duration={duration}
+                      direction={direction}
+                    />
+                  ) : (
+                    <motion.ul className="space-y-2" variants={stagger.list}>
+                      {drawerLinks.map((link) => (
+                        <MobileNavItem
+                          key={link.id}
+                          mode={mode}
+                          classNames={classNames}
+                          messages={messages}
+                          link={link}
+                          activeLink={activeLink}
+                          getLinkProps={getLinkProps}
+                          getItemId={getItemId}
+                          expandedIds={expandedIds}
+                          onToggleGroup={toggleGroup}
+                          onDrillDown={setDrillDownId}
+                          duration={duration}
+                          variants={stagger.item}
+                        />
+                      ))}
+                    </motion.ul>
+                  )}
+
+                  {!drillDownLink && signedInUser && (
+                    <DrawerUserSection
+                      mode={mode}
+                      classNames={classNames}
+                      messages={messages}
+                      activeLink={activeLink}
+                      getLinkProps={getLinkProps}
+                      user={signedInUser}
+                      items={userMenuItems}
+                      onAction={selectUserAction}
+                    />
+                  )}
+                </nav>
+
+                {!drillDownLink && localeSwitcher("mx-6 mb-8 w-fit")}
+
+                {side === "top" && dragHandle}
+              </motion.div>
+            </>
+          )}
+        </AnimatePresence>,
+      )}
+    </MotionConfig>
+  );
+};
+
+export default Navbar;
@@ -0,0 +1,152 @@
+import { type Transition, type Variants } from "framer-motion";
+
+import {
+  type DrawerAnimation,
+  type DrawerVariants,
+  type PhysicalSide,
+} from "./types";
+
+// ============================================================================
+// DRAWER PRESETS
+// ============================================================================
+
+// Viewport point the "reveal" circle grows from (the hamburger's center)
+export interface AnimationOrigin {
+  x: number;
+  y: number;
+}
+
+const slide = (side: PhysicalSide): Variants => {
+  const axis = side === "left" || side === "right" ? "x" : "y";
+  const offset = side === "left" || side === "top" ? "-100%" : "100%";
+  return {
+    initial: { [axis]: offset },
+    animate: { [axis]: 0 },
+    exit: { [axis]: offset },
+  };
+};
+
+const fade = (): Variants => ({
+  initial: { opacity: 0 },
+  animate: { opacity: 1 },
+  exit: { opacity: 0 },
+});
+
+// Grows out of the edge the drawer is attached to
+const scale = (side: PhysicalSide): Variants => {
+  const origin = {
+    originX: side === "left" ? 0 : side === "right" ? 1 : 0.5,
+    originY: side === "top" ? 0 : side === "bottom" ? 1 : 0.5,
+  };
+  return {
+    initial: { ...origin, opacity: 0, scale: 0.92 },
+    animate: { ...origin, opacity: 1, scale: 1 },
+    exit: { ...origin, opacity: 0, scale: 0.92 },
+  };
+};
+
+// Circular clip-path from the origin (or the middle of the drawer's edge).
+// clip-path coordinates are relative to the panel, so right/bottom drawers
+// measure from their far edge with calc() instead of knowing their size.
+const reveal = (
+  side: PhysicalSide,
+  origin: AnimationOrigin | null,
+): Variants => {
+  if (typeof window === "undefined") return fade();
+
+  const { innerWidth: width, innerHeight: height } = window;
+  const { x, y } = origin ?? {
+    x: side === "left" ? 0 : side === "right" ? width : width / 2,
+    y: side === "top" ? 0 : side === "bottom" ? height : height / 2,
+  };
+  const at =
+    side === "right"
+      ? `calc(100% - ${width - x}px) ${y}px`
+      : side === "bottom"
+        ? `${x}px calc(100% - ${height - y}px)`
+        : `${x}px ${y}px`;
+  const radius = Math.ceil(Math.hypot(width, height));
+
+  return {
+    initial: { clipPath: `circle(0px at ${at})` },
+    animate: { clipPath: `circle(${radius}px at ${at})` },
+    exit: { clipPath: `circle(0px at ${at})` },
+  };
+};
+
+// Panel variants for a preset ("push" and "spring" slide; they differ in the
+// page movement and the transition). Custom states replace the preset's.
+export const getDrawerVariants = (
+  preset: DrawerAnimation,
+  side: PhysicalSide,
+  origin: AnimationOrigin | null,
+  custom: DrawerVariants = {},
+): Variants => {
+  const variants =
+    preset === "fade"
+      ? fade()
+      : preset === "scale"
+        ? scale(side)
+        : preset === "reveal"
+          ? reveal(side, origin)
+          : slide(side);
+  return { ...variants, ...custom };
+};
+
+// Transition for a preset; `duration` is already 0 under reduced motion,
+// which also turns the spring into an instant tween
+export const getDrawerTransition = (
+  preset: DrawerAnimation,
+  duration: number,
+): Transition => {
+  if (duration === 0) return { duration: 0 };
+  switch (preset) {
+    case "spring":
+      return { type: "spring", duration, bounce: 0.2 };
+    case "fade":
+    case "scale":
+      return { duration, ease: "easeOut" };
+    default:
+      return { duration, ease: "easeInOut" };
+  }
+};
+
+// ============================================================================
+// LINKS & INDICATOR
+// ============================================================================
+
+// Drawer list + item variants: items fade and shift in one after another
+// once the panel animates in. Keyed to the panel's variant labels.
+export const getStaggerVariants = (
+  stagger: number,
+  duration: number,
+  side: PhysicalSide,
+): { list: Variants; item: Variants } => {
+  const instant = duration === 0 || stagger === 0;
+  const offset = 16 * (side === "left" || side === "top" ? -1 : 1);
+  const isHorizontal = side === "left" || side === "right";
+
+  return {
+    list: {
+      animate: {
+        transition: instant
+          ? {}
+          : { staggerChildren: stagger, delayChildren: duration / 2 },
+      },
+    },
+    item: instant
+      ? {}
+      : {
+          initial: isHorizontal
+            ? { opacity: 0, x: offset }
+            : { opacity: 0, y: offset },
+          animate: { opacity: 1, x: 0, y: 0, transition: { duration } },
+        },
+  };
+};
+
+// Shared-layout transition for the active "pill" gliding between links
+export const getIndicatorTransition = (duration: number): Transition =>
+  duration === 0
+    ? { duration: 0 }
+    : { type: "spring", duration: duration * 1.5, bounce: 0.15 };
@@ -0,0 +1,64 @@
+import { type NavbarConfig } from "./types";
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+// Default configuration (also used by the playground to diff user settings)
+export const DEFAULT_NAVBAR_CONFIG = {
+  mode: "singlepage",
+  layout: "bar",
+  bottomTabCount: 4,
+  side: "right",
+  width: { base: "100vw", md: "80vw", lg: "50vw" },
+  height: "100vh",
+  initialBg: "transparent",
+  scrolledBg: "bg-nav-surface/95 shadow-md",
+  scrollThreshold: 20,
+  logoScale: { initial: 1, scrolled: 0.92 },
+  closeOnRouteChange: true,
+  trapFocus: true,
+  disableBodyScrollOnOpen: true,
+  ariaLabel: "", // Empty: the locale's `navigation` message
+  animateDuration: 300,
+  enableScrollSpy: false,
+  scrollSpyOffset: "auto",
+  scrollSpyRootMargin: "", // Empty: derived from the offset
+  scrollSpyThreshold: [0],
+  scrollSpySyncHash: false,
+  mobileBreakpoint: "md", // Show hamburger below this breakpoint
+  megaMenuHoverDelay: 150,
+  colorScheme: "system",
+  classNames: {},
+  autoHide: false,
+  autoHideTolerance: 8,
+  autoHideVelocity: 0,
+  breakpoints: {}, // Merged over DEFAULT_BREAKPOINTS
+  responsive: {},
+  enableCommandPalette: false,
+  commandPaletteRecents: 5,
+  swipeToClose: true,
+  swipeToOpen: false,
+  swipeEdgeWidth: 24,
+  swipeDistance: 80,
+  swipeVelocity: 500,
+  keyboardNavigation: "tab",
+  drawerAnimation: "slide",
+  drawerVariants: {},
+  linkStagger: 0.04,
+  activeIndicator: "background",
+  locale: "en",
+  dir: "auto",
+  messages: {},
+  portalContainer: "body",
+  zIndex: { bar: 40, overlay: 50, palette: 60 },
+} satisfies Required<NavbarConfig>;
+
+// Tailwind's default breakpoints (min-width)
+export const DEFAULT_BREAKPOINTS: Record<string, number | string> = {
+  sm: 640,
+  md: 768,
+  lg: 1024,
+  xl: 1280,
+  "2xl": 1536,
+};
@@ -0,0 +1,679 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+
+import { isBodyScrollLocked, lockBodyScroll } from "./scrollLock";
+import {
+  getScrollSnapshot,
+  SERVER_SCROLL_SNAPSHOT,
+  subscribeToScroll,
+  type ScrollSnapshot,
+} from "./scrollStore";
+import { pickActiveSection, towardsEdge } from "./utils";
+import { type PhysicalSide, type ScrollDirection } from "./types";
+
+// ============================================================================
+// CUSTOM HOOKS
+// ============================================================================
+
+// Select from the shared scroll store. `select` must return a primitive:
+// the component re-renders only when that value changes.
+const useScrollSelector = <T>(select: (snapshot: ScrollSnapshot) => T) =>
+  useSyncExternalStore(
+    subscribeToScroll,
+    () => select(getScrollSnapshot()),
+    () => select(SERVER_SCROLL_SNAPSHOT),
+  );
+
+// Hook to detect scroll state; re-renders only when the threshold is crossed
+export const useScrollState = (threshold = 20) =>
+  useScrollSelector((snapshot) => snapshot.y > threshold);
+
+// Hook to track scroll direction; ignores moves smaller than `tolerance` px
+// or slower than `minVelocity` px/ms so small jitters don't flip it.
+// Disabled, it doesn't subscribe and stays null.
+export const useScrollDirection = (
+  tolerance = 8,
+  minVelocity = 0,
+  enabled = true,
+) => {
+  const directionRef = useRef<ScrollDirection>(null);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!enabled) return () => undefined;
+
+      let anchor = { y: 0, time: 0 };
+      const unsubscribe = subscribeToScroll(() => {
+        const { y, time } = getScrollSnapshot();
+        const delta = y - anchor.y;
+        if (Math.abs(delta) < tolerance) return;
+
+        const velocity = Math.abs(delta) / Math.max(time - anchor.time, 1);
+        anchor = { y, time };
+        if (velocity < minVelocity) return;
+
+        directionRef.current = delta > 0 ? "down" : "up";
+        onChange();
+      });
+      // Subscribing refreshes the snapshot, so take the anchor after it
+      const { y, time } = getScrollSnapshot();
+      anchor = { y, time };
+      return unsubscribe;
+    },
+    [enabled, tolerance, minVelocity],
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => directionRef.current,
+    () => null,
+  );
+};
+
+// Hook for page scroll progress (0 at the top, 1 at the bottom)
+export const useScrollProgress = () =>
+  useScrollSelector(({ y, maxY }) =>
+    maxY > 0 ? Math.min(Math.max(y / maxY, 0), 1) : 0,
+  );
+
+// Hook to lock body scroll (shared, reference-counted lock)
+export const useLockBodyScroll = (lock: boolean) => {
+  useEffect(() => {
+    if (!lock) return;
+    return lockBodyScroll();
+  }, [lock]);
+};
+
+const RECENT_LINKS_KEY = "navbar:recent-links";
+
+// Hook for recently visited hrefs (newest first), persisted in localStorage
+export const useRecentLinks = (max: number) => {
+  const [recent, setRecent] = useState<string[]>([]);
+
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(
+        localStorage.getItem(RECENT_LINKS_KEY) ?? "[]",
+      ) as unknown;
+      if (Array.isArray(stored)) {
+        setRecent(stored.filter((x): x is string => typeof x === "string"));
+      }
+    } catch {
+      // Ignore unreadable or blocked storage
+    }
+  }, []);
+
+  const addRecent = useCallback(
+    (href: string) => {
+      if (max <= 0) return;
+      const next = [href, ...recent.filter((x) => x !== href)].slice(0, max);
+      setRecent(next);
+      try {
+        localStorage.setItem(RECENT_LINKS_KEY, JSON.stringify(next));
+      } catch {
+        // Ignore unreadable or blocked storage
+      }
+    },
+    [max, recent],
+  );
+
+  return [recent.slice(0, Math.max(max, 0)), addRecent] as const;
+};
+
+export interface ScrollSpyOptions {
+  offset: number; // Fixed header height; sections count as active below it
+  rootMargin?: string; // Overrides the band derived from `offset`
+  threshold?: number[];
+}
+
+// Hook for scroll spy functionality
+export const useScrollSpy = (
+  sectionIds: string[],
+  enabled: boolean,
+  { offset, rootMargin, threshold }: ScrollSpyOptions,
+) => {
+  const [activeId, setActiveId] = useState<string>("");
+  // Stable dependencies, so a new array with the same ids doesn't re-observe
+  const idsKey = sectionIds.join("\n");
+  const thresholdKey = threshold?.join(",") ?? "";
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const ids = idsKey.split("\n").filter(Boolean);
+    const observed = new Map<string, HTMLElement>();
+    let frame = 0;
+
+    // Batch layout reads into one frame
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        if (isBodyScrollLocked()) return;
+        const elements = ids
+          .map((id) => observed.get(id))
+          .filter((element): element is HTMLElement => !!element);
+        setActiveId(pickActiveSection(elements, offset));
+      });
+    };
+
+    // By default the root is a 1px band on the offset line, so entries fire
+    // exactly when a section boundary crosses it
+    const createObserver = () =>
+      new IntersectionObserver(update, {
+        rootMargin:
+          rootMargin ??
+          `-${offset}px 0px -${Math.max(window.innerHeight - offset - 1, 0)}px 0px`,
+        threshold: thresholdKey ? thresholdKey.split(",").map(Number) : 0,
+      });
+    let observer = createObserver();
+
+    // Observe sections present now, and any that mount later
+    const observeSections = () => {
+      ids.forEach((id) => {
+        const element = document.getElementById(id);
+        if (!element || observed.get(id) === element) return;
+        const previous = observed.get(id);
+        if (previous) observer.unobserve(previous);
+        observed.set(id, element);
+        observer.observe(element);
+      });
+      update();
+    };
+
+    observeSections();
+    const mutationObserver = new MutationObserver(() => {
+      if (ids.some((id) => document.getElementById(id) !== observed.get(id))) {
+        observeSections();
+      }
+    });
+    mutationObserver.observe(document.body, { childList: true, subtree: true });
+
+    // The band depends on the viewport height
+    const handleResize = () => {
+      observer.disconnect();
+      observer = createObserver();
+      observed.forEach((element) => observer.observe(element));
+    };
+    window.addEventListener("resize", handleResize);
+
+    // Reaching the page bottom doesn't always cross an observer threshold
+    let wasAtBottom = false;
+    const unsubscribeFromScroll = subscribeToScroll(() => {
+      const { y, maxY } = getScrollSnapshot();
+      const atBottom = y >= maxY - 2;
+      if (atBottom !== wasAtBottom) update();
+      wasAtBottom = atBottom;
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      mutationObserver.disconnect();
+      unsubscribeFromScroll();
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [idsKey, enabled, offset, rootMargin, thresholdKey]);
+
+  return activeId;
+};
+
+export interface EdgeSwipeOptions {
+  edgeWidth: number; // Touches must start this close (px) to the edge
+  distance: number; // Inward travel (px) that completes the swipe
+  velocity: number; // Or a release speed (px/s) that completes it
+}
+
+// Hook for an inward touch swipe starting at one screen edge. Plain touch
+// events, so it works the same with or without reduced motion.
+export const useEdgeSwipe = (
+  enabled: boolean,
+  side: PhysicalSide,
+  onSwipe: () => void,
+  { edgeWidth, distance, velocity }: EdgeSwipeOptions,
+) => {
+  // Latest callback without resubscribing mid-gesture
+  const onSwipeRef = useRef(onSwipe);
+  useEffect(() => {
+    onSwipeRef.current = onSwipe;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let start: { x: number; y: number; time: number } | null = null;
+
+    const handleStart = (e: TouchEvent) => {
+      const touch = e.touches[0];
+      start = null;
+      if (!touch || e.touches.length > 1) return;
+
+      const fromEdge = {
+        left: touch.clientX,
+        right: window.innerWidth - touch.clientX,
+        top: touch.clientY,
+        bottom: window.innerHeight - touch.clientY,
+      }[side];
+      if (fromEdge <= edgeWidth) {
+        start = { x: touch.clientX, y: touch.clientY, time: e.timeStamp };
+      }
+    };
+
+    const handleEnd = (e: TouchEvent) => {
+      const touch = e.changedTouches[0];
+      if (!start || !touch) return;
+
+      const delta = { x: touch.clientX - start.x, y: touch.clientY - start.y };
+      const travel = -towardsEdge(side, delta);
+      const drift =
+        side === "left" || side === "right"
+          ? Math.abs(delta.y)
+          : Math.abs(delta.x);
+      const speed = (travel / Math.max(e.timeStamp - start.time, 1)) * 1000;
+      start = null;
+
+      // Mostly inward, and far or fast enough
+      if (travel > drift && (travel >= distance || speed >= velocity)) {
+        onSwipeRef.current();
+      }
+    };
+
+    const handleCancel = () => {
+      start = null;
+    };
+
+    document.addEventListener("touchstart", handleStart, { passive: true });
+    document.addEventListener("touchend", handleEnd, { passive: true });
+    document.addEventListener("touchcancel", handleCancel, { passive: true });
+    return () => {
+      document.removeEventListener("touchstart", handleStart);
+      document.removeEventListener("touchend", handleEnd);
+      document.removeEventListener("touchcancel", handleCancel);
+    };
+  }, [enabled, side, edgeWidth, distance, velocity]);
+};
+
+const ROVING_KEYS = {
+  horizontal: { next: "ArrowRight", previous: "ArrowLeft" },
+  "horizontal-rtl": { next: "ArrowLeft", previous: "ArrowRight" },
+  vertical: { next: "ArrowDown", previous: "ArrowUp" },
+} as const;
+
+// Hook for a roving tabindex (WAI-ARIA menubar keyboard model) over the
+// `[data-roving-item]` elements inside a container. Returns a callback ref;
+// nested containers keep their own items.
+export const useRovingFocus = (
+  enabled: boolean,
+  orientation: "horizontal" | "vertical",
+) =>
+  useCallback(
+    (container: HTMLElement | null) => {
+      if (!enabled || !container) return;
+
+      container.dataset.rovingGroup = "";
+      const getItems = () =>
+        [
+          ...container.querySelectorAll<HTMLElement>("[data-roving-item]"),
+        ].filter((item) => item.closest("[data-roving-group]") === container);
+
+      // One tab stop: the last focused item, else the current page (or its
+      // parent), else the first item
+      let stop: HTMLElement | null = null;
+      const sync = () => {
+        const items = getItems();
+        if (!stop || !items.includes(stop)) {
+          stop =
+            items.find((item) => item.hasAttribute("aria-current")) ??
+            items.find((item) => item.hasAttribute("data-active")) ??
+            items[0] ??
+            null;
+        }
+        items.forEach((item) => (item.tabIndex = item === stop ? 0 : -1));
+      };
+
+      const focusItem = (item: HTMLElement | undefined) => {
+        if (!item) return;
+        stop = item;
+        sync();
+        item.focus();
+      };
+
+      let typeahead = "";
+      let typeaheadTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+        const items = getItems();
+        const index = items.indexOf(e.target as HTMLElement);
+        if (index === -1 || e.altKey || e.ctrlKey || e.metaKey) return;
+
+        // Left/right follow the reading direction inherited from `dir`
+        const isRtl = getComputedStyle(container).direction === "rtl";
+        const keys =
+          ROVING_KEYS[
+            orientation === "horizontal" && isRtl
+              ? "horizontal-rtl"
+              : orientation
+          ];
+        switch (e.key) {
+          case keys.next:
+            e.preventDefault();
+            focusItem(items[(index + 1) % items.length]);
+            break;
+          case keys.previous:
+            e.preventDefault();
+            focusItem(items[(index - 1 + items.length) % items.length]);
+            break;
+          case "Home":
+            e.preventDefault();
+            focusItem(items[0]);
+            break;
+          case "End":
+            e.preventDefault();
+            focusItem(items[items.length - 1]);
+            break;
+          default: {
+            if (e.key.length !== 1 || e.key === " ") return;
+
+            // Typeahead: keys typed within 500ms form one prefix; repeating
+            // a single letter cycles through the items starting with it
+            clearTimeout(typeaheadTimer);
+            typeahead += e.key.toLowerCase();
+            typeaheadTimer = setTimeout(() => (typeahead = ""), 500);
+            const prefix = [...typeahead].every((char) => char === typeahead[0])
+              ? typeahead.charAt(0)
+              : typeahead;
+
+            const start = prefix.length > 1 ? index : index + 1;
+            const match = [
+              ...items.slice(start),
+              ...items.slice(0, start),
+            ].find((item) =>
+              item.textContent?.trim().toLowerCase().startsWith(prefix),
+            );
+            if (match) {
+              e.preventDefault();
+              focusItem(match);
+            }
+          }
+        }
+      };
+
+      const handleFocusIn = (e: FocusEvent) => {
+        const target = e.target as HTMLElement;
+        if (getItems().includes(target)) {
+          stop = target;
+          sync();
+        }
+      };
+
+      // Items come and go (accordions, drill-downs, link changes)
+      const observer = new MutationObserver(sync);
+      observer.observe(container, { childList: true, subtree: true });
+      sync();
+
+      container.addEventListener("keydown", handleKeyDown);
+      container.addEventListener("focusin", handleFocusIn);
+      return () => {
+        observer.disconnect();
+        clearTimeout(typeaheadTimer);
+        container.removeEventListener("keydown", handleKeyDown);
+        container.removeEventListener("focusin", handleFocusIn);
+        getItems().forEach((item) => item.removeAttribute("tabindex"));
+        delete container.dataset.rovingGroup;
+      };
+    },
+    [enabled, orientation],
+  );
+
+// Hook to measure an element's height, kept current with ResizeObserver.
+// Debounced so padding animations report the settled height only.
+export const useElementHeight = (
+  ref: React.RefObject<HTMLElement | null>,
+  delay = 100,
+) => {
+  const [height, setHeight] = useState(0);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const observer = new ResizeObserver(() => {
+      clearTimeout(timeout);
+      timeout = setTimeout(
+        () => setHeight(element.getBoundingClientRect().height),
+        delay,
+      );
+    });
+    observer.observe(element);
+    return () => {
+      clearTimeout(timeout);
+      observer.disconnect();
+    };
+  }, [ref, delay]);
+
+  return height;
+};
+
+// Text fields that bring up the on-screen keyboard
+const isEditable = (element: Element | null) =>
+  element instanceof HTMLTextAreaElement ||
+  element instanceof HTMLSelectElement ||
+  (element instanceof HTMLInputElement &&
+    ![
+      "button",
+      "checkbox",
+      "color",
+      "file",
+      "radio",
+      "range",
+      "reset",
+      "submit",
+    ].includes(element.type)) ||
+  (element instanceof HTMLElement && element.isContentEditable);
+
+const subscribeToKeyboard = (onChange: () => void) => {
+  document.addEventListener("focusin", onChange);
+  document.addEventListener("focusout", onChange);
+  window.visualViewport?.addEventListener("resize", onChange);
+  return () => {
+    document.removeEventListener("focusin", onChange);
+    document.removeEventListener("focusout", onChange);
+    window.visualViewport?.removeEventListener("resize", onChange);
+  };
+};
+
+// Hook for whether the on-screen keyboard is (likely) open: a text field has
+// focus on a touch screen, or the visual viewport shrank well below the
+// layout viewport. Closed on the server and during hydration.
+export const useVirtualKeyboardOpen = () =>
+  useSyncExternalStore(
+    subscribeToKeyboard,
+    () => {
+      if (!isEditable(document.activeElement)) return false;
+      const viewport = window.visualViewport;
+      return (
+        window.matchMedia("(pointer: coarse)").matches ||
+        (!!viewport && viewport.height < window.innerHeight - 100)
+      );
+    },
+    () => false,
+  );
+
+// Hook for the element a selector names, for portals: null on the server and
+// during hydration, then resolved after mount. A container that isn't there
+// yet is picked up as soon as it is added; until then (or without a
+// selector) callers render inline, and development builds say why.
+export const usePortalTarget = (selector: string) => {
+  const [target, setTarget] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const find = () =>
+      selector ? document.querySelector<HTMLElement>(selector) : null;
+    const element = find();
+    setTarget(element);
+    if (!selector || element) return;
+
+    if (process.env.NODE_ENV !== "production") {
+      console.warn(
+        `Navbar: portalContainer "${selector}" matches no element; the drawer and palette render inline until it exists.`,
+      );
+    }
+
+    const observer = new MutationObserver(() => {
+      const added = find();
+      if (!added) return;
+      setTarget(added);
+      observer.disconnect();
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+    return () => observer.disconnect();
+  }, [selector]);
+
+  return target;
+};
+
+// ============================================================================
+// OVERLAYS
+// ============================================================================
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), textarea:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Queried on demand so content added while open is included; skips roving
+// items that aren't the tab stop and anything inert
+const getFocusable = (container: HTMLElement) =>
+  [...container.querySelectorAll<HTMLElement>(FOCUSABLE)].filter(
+    (element) => element.tabIndex >= 0 && !element.closest("[inert]"),
+  );
+
+// Make everything outside `keep` inert; returns the undo
+const setInertOutside = (keep: HTMLElement[]) => {
+  const inerted: HTMLElement[] = [];
+
+  const visit = (parent: Element) => {
+    for (const child of parent.children) {
+      if (!(child instanceof HTMLElement) || keep.includes(child)) continue;
+      if (keep.some((element) => child.contains(element))) {
+        visit(child);
+      } else if (!child.inert) {
+        child.inert = true;
+        inerted.push(child);
+      }
+    }
+  };
+  visit(document.body);
+
+  return () => inerted.forEach((element) => (element.inert = false));
+};
+
+interface OverlayEntry {
+  container: HTMLElement;
+  trapFocus: boolean;
+  getKeep: () => HTMLElement[];
+  releaseInert: () => void;
+}
+
+// Open overlays, topmost last. Shared by every navbar on the page so only
+// the top one traps focus and reacts to Escape.
+const overlayStack: OverlayEntry[] = [];
+
+const refreshInert = () => {
+  overlayStack.forEach((entry) => {
+    entry.releaseInert();
+    entry.releaseInert = () => undefined;
+  });
+  const top = overlayStack[overlayStack.length - 1];
+  if (top?.trapFocus) top.releaseInert = setInertOutside(top.getKeep());
+};
+
+export interface OverlayOptions {
+  onClose: () => void; // Escape while this overlay is the topmost
+  trapFocus?: boolean; // Trap Tab and make the rest of the page inert
+  keepRefs?: React.RefObject<HTMLElement | null>[]; // Stay interactive too
+}
+
+// Hook for a modal overlay: joins the overlay stack while open, moves focus
+// in, optionally traps it (the rest of the page goes inert), closes on
+// Escape when topmost and gives focus back to whatever had it before.
+export const useOverlay = (
+  isOpen: boolean,
+  containerRef: React.RefObject<HTMLElement | null>,
+  { onClose, trapFocus = true, keepRefs = [] }: OverlayOptions,
+) => {
+  // Latest callbacks/refs without re-running the effect
+  const optionsRef = useRef({ onClose, keepRefs });
+  useEffect(() => {
+    optionsRef.current = { onClose, keepRefs };
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isOpen || !container) return;
+
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const entry: OverlayEntry = {
+      container,
+      trapFocus,
+      getKeep: () => [
+        container,
+        ...optionsRef.current.keepRefs.flatMap((ref) => ref.current ?? []),
+      ],
+      releaseInert: () => undefined,
+    };
+    const isTop = () => overlayStack[overlayStack.length - 1] === entry;
+
+    overlayStack.push(entry);
+    refreshInert();
+    (getFocusable(container)[0] ?? container).focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isTop()) return;
+
+      if (e.key === "Escape") {
+        optionsRef.current.onClose();
+        return;
+      }
+
+      if (e.key !== "Tab" || !trapFocus) return;
+      const focusable = getFocusable(container);
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      const isOutside = !container.contains(active);
+
+      if (e.shiftKey && (active === first || isOutside)) {
+        e.preventDefault();
+        last?.focus();
+      } else if (!e.shiftKey && (active === last || isOutside)) {
+        e.preventDefault();
+        first?.focus();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      overlayStack.splice(overlayStack.indexOf(entry), 1);
+      refreshInert();
+
+      // Give focus back unless it has already moved on (e.g. into another
+      // overlay opened in the same step) or the overlay reopened
+      requestAnimationFrame(() => {
+        const active = document.activeElement;
+        if (
+          previouslyFocused?.isConnected &&
+          !overlayStack.some((other) => other.container === container) &&
+          (!active || active === document.body || container.contains(active))
+        ) {
+          previouslyFocused.focus({ preventScroll: true });
+        }
+      });
+    };
+  }, [isOpen, containerRef, trapFocus]);
+};
@@ -0,0 +1,118 @@
+import {
+  type NavbarMessages,
+  type NavSide,
+  type PhysicalSide,
+  type TextDirection,
+} from "./types";
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+const EN: NavbarMessages = {
+  navigation: "Main navigation",
+  desktopNavigation: "Desktop navigation",
+  menu: "Navigation menu",
+  openMenu: "Open navigation menu",
+  closeMenu: "Close navigation menu",
+  back: "Back",
+  searchLinks: "Search links",
+  searchPlaceholder: "Search links…",
+  searchResults: "Links",
+  recentLinks: "Recent",
+  allLinks: "All links",
+  matchingLinks: "Results",
+  noMatches: "No links match “{query}”.",
+  opensInNewTab: "(opens in a new tab)",
+  account: "Account",
+  accountMenu: "Account menu for {name}",
+  language: "Language",
+  tabBar: "Tab bar",
+  more: "More",
+};
+
+// Built-in dictionaries, keyed by language subtag
+export const NAVBAR_MESSAGES: Record<string, NavbarMessages> = {
+  en: EN,
+  de: {
+    navigation: "Hauptnavigation",
+    desktopNavigation: "Desktop-Navigation",
+    menu: "Navigationsmenü",
+    openMenu: "Navigationsmenü öffnen",
+    closeMenu: "Navigationsmenü schließen",
+    back: "Zurück",
+    searchLinks: "Links durchsuchen",
+    searchPlaceholder: "Links durchsuchen…",
+    searchResults: "Links",
+    recentLinks: "Zuletzt besucht",
+    allLinks: "Alle Links",
+    matchingLinks: "Ergebnisse",
+    noMatches: "Keine Links zu „{query}“.",
+    opensInNewTab: "(öffnet in neuem Tab)",
+    account: "Konto",
+    accountMenu: "Kontomenü für {name}",
+    language: "Sprache",
+    tabBar: "Tab-Leiste",
+    more: "Mehr",
+  },
+  ar: {
+    navigation: "التنقل الرئيسي",
+    desktopNavigation: "تنقل سطح المكتب",
+    menu: "قائمة التنقل",
+    openMenu: "فتح قائمة التنقل",
+    closeMenu: "إغلاق قائمة التنقل",
+    back: "رجوع",
+    searchLinks: "البحث في الروابط",
+    searchPlaceholder: "البحث في الروابط…",
+    searchResults: "الروابط",
+    recentLinks: "الأخيرة",
+    allLinks: "كل الروابط",
+    matchingLinks: "النتائج",
+    noMatches: "لا توجد روابط تطابق «{query}».",
+    opensInNewTab: "(يفتح في علامة تبويب جديدة)",
+    account: "الحساب",
+    accountMenu: "قائمة حساب {name}",
+    language: "اللغة",
+    tabBar: "شريط علامات التبويب",
+    more: "المزيد",
+  },
+};
+
+const languageOf = (locale: string) =>
+  locale.split("-")[0]?.toLowerCase() ?? "";
+
+// Built-in dictionary for the locale (English as fallback) with overrides
+export const resolveMessages = (
+  locale: string,
+  overrides: Partial<NavbarMessages> = {},
+): NavbarMessages => ({
+  ...(NAVBAR_MESSAGES[languageOf(locale)] ?? EN),
+  ...overrides,
+});
+
+// Fill `{placeholders}` in a message
+export const formatMessage = (
+  message: string,
+  values: Record<string, string>,
+) =>
+  message.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+
+// ============================================================================
+// DIRECTION
+// ============================================================================
+
+const RTL_LANGUAGES = new Set(["ar", "fa", "he", "ps", "ur", "yi"]);
+
+// Writing direction of a locale ("ar-EG" -> "rtl")
+export const getLocaleDirection = (locale: string): TextDirection =>
+  RTL_LANGUAGES.has(languageOf(locale)) ? "rtl" : "ltr";
+
+// Map logical sides to physical ones: "start" is the left edge in LTR and
+// the right edge in RTL
+export const toPhysicalSide = (
+  side: NavSide,
+  direction: TextDirection,
+): PhysicalSide => {
+  if (side !== "start" && side !== "end") return side;
+  return (side === "start") === (direction === "ltr") ? "left" : "right";
+};
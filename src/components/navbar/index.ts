@@ -0,0 +1,44 @@
+export { default as Navbar } from "./Navbar";
+export { default as LocaleSwitcher } from "./LocaleSwitcher";
+export {
+  getDrawerTransition,
+  getDrawerVariants,
+  getStaggerVariants,
+  type AnimationOrigin,
+} from "./animations";
+export * from "./types";
+export { DEFAULT_BREAKPOINTS, DEFAULT_NAVBAR_CONFIG } from "./config";
+export {
+  formatMessage,
+  getLocaleDirection,
+  NAVBAR_MESSAGES,
+  resolveMessages,
+} from "./i18n";
+export {
+  useLockBodyScroll,
+  useScrollDirection,
+  useScrollProgress,
+  useScrollState,
+} from "./hooks";
+export {
+  useDocumentDirection,
+  useDocumentLanguage,
+  useMediaQuery,
+  usePreferences,
+  type UserPreferences,
+} from "./preferences";
+export {
+  defineNavigation,
+  navbarConfigFieldSchemas,
+  navigationConfigSchema,
+  parseNavigationConfig,
+  type NavigationConfig,
+  type NavigationConfigInput,
+} from "./schema";
+export { lockBodyScroll, whenBodyScrollUnlocked } from "./scrollLock";
+export {
+  useNavbar,
+  type UseNavbarOptions,
+  type UseNavbarReturn,
+} from "./useNavbar";
+export { searchLinks } from "./utils";
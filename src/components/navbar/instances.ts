@@ -0,0 +1,26 @@
+// ============================================================================
+// NAVBAR INSTANCES
+// ============================================================================
+
+// Navbars on one page (a site header plus a docs sidebar, say) take turns:
+// when one opens its drawer or command palette, every other one closes its
+// own. Instances are told apart by their useId.
+
+const listeners = new Set<(instanceId: string) => void>();
+
+// Calls `onOtherOpen` whenever another instance announces it opened
+export const subscribeToNavbarInstances = (
+  instanceId: string,
+  onOtherOpen: () => void,
+) => {
+  const listener = (openedId: string) => {
+    if (openedId !== instanceId) onOtherOpen();
+  };
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const announceNavbarOpen = (instanceId: string) =>
+  listeners.forEach((listener) => listener(instanceId));
@@ -0,0 +1,135 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+
+import { type TextDirection } from "./types";
+import { sortBreakpoints } from "./utils";
+
+// ============================================================================
+// MEDIA QUERY STORE
+// ============================================================================
+
+// Read through useSyncExternalStore: the server snapshot (no match) is used
+// for the server render and hydration, then every subscriber re-renders with
+// the live value and again whenever the query flips. That makes these values
+// right for behavior only; what the server renders should switch in CSS
+// (breakpointCss, data-nav-theme, MotionConfig) so nothing flashes.
+
+// One MediaQueryList per query, shared by every subscriber
+const mediaQueryLists = new Map<string, MediaQueryList>();
+
+const getMediaQueryList = (query: string) => {
+  let list = mediaQueryLists.get(query);
+  if (!list) {
+    list = window.matchMedia(query);
+    mediaQueryLists.set(query, list);
+  }
+  return list;
+};
+
+const subscribeToQueries = (queries: string[], onChange: () => void) => {
+  const lists = queries.map(getMediaQueryList);
+  lists.forEach((list) => list.addEventListener("change", onChange));
+  return () =>
+    lists.forEach((list) => list.removeEventListener("change", onChange));
+};
+
+// Matches for several queries; all false on the server and during hydration
+// (mobile-first). The snapshot is a "0"/"1" string so it compares by value.
+export const useMediaQueries = (queries: string[]) => {
+  const queryKey = queries.join("\n");
+
+  const subscribe = useCallback(
+    (onChange: () => void) =>
+      subscribeToQueries(queryKey.split("\n").filter(Boolean), onChange),
+    [queryKey],
+  );
+  const snapshot = useSyncExternalStore(
+    subscribe,
+    () =>
+      queryKey
+        .split("\n")
+        .filter(Boolean)
+        .map((query) => (getMediaQueryList(query).matches ? "1" : "0"))
+        .join(""),
+    () => "",
+  );
+
+  return queries.map((_, index) => snapshot[index] === "1");
+};
+
+export const useMediaQuery = (query: string) => {
+  const [matches = false] = useMediaQueries([query]);
+  return matches;
+};
+
+// ============================================================================
+// USER PREFERENCES
+// ============================================================================
+
+export interface UserPreferences {
+  reducedMotion: boolean;
+  colorScheme: "light" | "dark";
+  contrast: "more" | "less" | "no-preference";
+}
+
+const PREFERENCE_QUERIES = [
+  "(prefers-reduced-motion: reduce)",
+  "(prefers-color-scheme: dark)",
+  "(prefers-contrast: more)",
+  "(prefers-contrast: less)",
+];
+
+// OS-level preferences, live. Server/hydration values are the CSS defaults:
+// motion allowed, light, no contrast preference.
+export const usePreferences = (): UserPreferences => {
+  const [reducedMotion = false, dark, moreContrast, lessContrast] =
+    useMediaQueries(PREFERENCE_QUERIES);
+
+  return useMemo(
+    () => ({
+      reducedMotion,
+      colorScheme: dark ? "dark" : "light",
+      contrast: moreContrast ? "more" : lessContrast ? "less" : "no-preference",
+    }),
+    [reducedMotion, dark, moreContrast, lessContrast],
+  );
+};
+
+// Names of the breakpoints currently matched, smallest first
+export const useActiveBreakpoints = (
+  breakpoints: Record<string, number | string>,
+) => {
+  const sorted = sortBreakpoints(breakpoints);
+  const matches = useMediaQueries(sorted.map((breakpoint) => breakpoint.query));
+  return sorted
+    .filter((_, index) => matches[index])
+    .map((breakpoint) => breakpoint.name);
+};
+
+// ============================================================================
+// DOCUMENT LOCALE
+// ============================================================================
+
+// <html lang dir>, which the root layout sets from the active locale. Server
+// and hydration read "" and "ltr".
+const subscribeToDocument = (onChange: () => void) => {
+  const observer = new MutationObserver(onChange);
+  observer.observe(document.documentElement, {
+    attributes: true,
+    attributeFilter: ["lang", "dir"],
+  });
+  return () => observer.disconnect();
+};
+
+export const useDocumentDirection = (): TextDirection =>
+  useSyncExternalStore(
+    subscribeToDocument,
+    () => (document.documentElement.dir === "rtl" ? "rtl" : "ltr"),
+    () => "ltr",
+  );
+
+export const useDocumentLanguage = () =>
+  useSyncExternalStore(
+    subscribeToDocument,
+    () => document.documentElement.lang,
+    () => "",
+  );
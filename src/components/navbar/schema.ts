@@ -0,0 +1,379 @@
+import { type Variant } from "framer-motion";
+import { type LucideIcon } from "lucide-react";
+import { z } from "zod";
+
+import { DEFAULT_BREAKPOINTS } from "./config";
+import {
+  type NavbarBreakpointOverrides,
+  type NavbarConfig,
+  type NavbarMessages,
+  type NavbarProps,
+  type NavLink,
+  type NavLinkContext,
+} from "./types";
+
+// ============================================================================
+// NAVIGATION CONFIG SCHEMA
+// ============================================================================
+
+// Validates navigation kept outside the code (a JSON or TS
+// `navigation.config`) and turns it into `config` + `links` for <Navbar>.
+// Objects are strict, so misspelled keys are reported instead of ignored.
+
+// "#section", "/path" (optionally with ?query/#hash) or an absolute URL
+const ANCHOR = /^#[A-Za-z][\w-]*$/;
+const PATH = /^\/[^\s#?]*(\?[^\s#]*)?(#[\w-]*)?$/;
+const URL_PROTOCOLS = ["http:", "https:", "mailto:", "tel:"];
+
+const isValidHref = (href: string) => {
+  if (ANCHOR.test(href) || PATH.test(href)) return true;
+  try {
+    return URL_PROTOCOLS.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// CSS length for breakpoints and drawer sizes ("768", "60em", "80vw")
+const CSS_LENGTH = /^\d+(\.\d+)?(px|em|rem|vw|vh|dvh|%)?$/;
+
+// Components and callbacks are only possible in TS configs
+const component = z.custom<LucideIcon>(
+  (value) =>
+    typeof value === "function" || (typeof value === "object" && !!value),
+  "Expected an icon component",
+);
+const predicate = z.custom<(context: NavLinkContext) => boolean>(
+  (value) => typeof value === "function",
+);
+
+const nonEmpty = z.string().trim().min(1, "Must not be empty");
+
+const navLinkSchema: z.ZodType<NavLink, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z
+    .object({
+      id: nonEmpty,
+      label: nonEmpty,
+      href: z.string().refine(isValidHref, (href) => ({
+        message: `Malformed href "${href}": expected "#section", "/path" or an http(s), mailto or tel URL`,
+      })),
+      description: z.string().optional(),
+      icon: component.optional(),
+      match: z.enum(["exact", "prefix"]).optional(),
+      prefetch: z.boolean().optional(),
+      children: z.array(navLinkSchema).optional(),
+      megaMenu: z
+        .object({
+          columns: z.array(
+            z
+              .object({ heading: nonEmpty, links: z.array(navLinkSchema) })
+              .strict(),
+          ),
+          featured: z.custom<React.ReactNode>().optional(),
+        })
+        .strict()
+        .optional(),
+      keywords: z.array(z.string()).optional(),
+      badge: z.union([z.number(), z.string()]).optional(),
+      external: z.boolean().optional(),
+      target: z.string().optional(),
+      rel: z.string().optional(),
+      download: z.union([z.boolean(), z.string()]).optional(),
+      disabled: z.boolean().optional(),
+      visible: z.union([z.boolean(), predicate]).optional(),
+      roles: z.array(z.string()).optional(),
+      permissions: z.array(z.string()).optional(),
+    })
+    .strict(),
+);
+
+const breakpoint = z.union([
+  z.number().positive(),
+  z.string().regex(CSS_LENGTH, "Expected a pixel number or CSS length"),
+]);
+
+// A fixed size, or one per breakpoint ("base" is the mobile-first default)
+const responsiveSize = z.union([
+  z.string(),
+  z.record(z.string(), z.string().optional()),
+]);
+
+const messageKeys = [
+  "navigation",
+  "desktopNavigation",
+  "menu",
+  "openMenu",
+  "closeMenu",
+  "back",
+  "searchLinks",
+  "searchPlaceholder",
+  "searchResults",
+  "recentLinks",
+  "allLinks",
+  "matchingLinks",
+  "noMatches",
+  "opensInNewTab",
+  "account",
+  "accountMenu",
+  "language",
+  "tabBar",
+  "more",
+] as const satisfies readonly (keyof NavbarMessages)[];
+
+// Fields that can also be overridden per breakpoint
+const configFields = {
+  mode: z.enum(["singlepage", "multipage"]).optional(),
+  layout: z.enum(["bar", "bottom-tabs"]).optional(),
+  bottomTabCount: z.number().int().positive().optional(),
+  side: z.enum(["left", "right", "top", "bottom", "start", "end"]).optional(),
+  width: responsiveSize.optional(),
+  height: responsiveSize.optional(),
+  initialBg: z.string().optional(),
+  scrolledBg: z.string().optional(),
+  scrollThreshold: z.number().nonnegative().optional(),
+  logoScale: z
+    .object({ initial: z.number(), scrolled: z.number() })
+    .strict()
+    .optional(),
+  closeOnRouteChange: z.boolean().optional(),
+  trapFocus: z.boolean().optional(),
+  disableBodyScrollOnOpen: z.boolean().optional(),
+  ariaLabel: z.string().optional(),
+  animateDuration: z.number().nonnegative().optional(),
+  enableScrollSpy: z.boolean().optional(),
+  scrollSpyOffset: z.union([z.number(), z.literal("auto")]).optional(),
+  scrollSpyRootMargin: z.string().optional(),
+  scrollSpyThreshold: z.array(z.number().min(0).max(1)).optional(),
+  scrollSpySyncHash: z.boolean().optional(),
+  mobileBreakpoint: z.union([z.string(), z.number().positive()]).optional(),
+  megaMenuHoverDelay: z.number().nonnegative().optional(),
+  colorScheme: z.enum(["system", "light", "dark"]).optional(),
+  classNames: z
+    .object({
+      nav: z.string(),
+      link: z.string(),
+      activeLink: z.string(),
+      panel: z.string(),
+      backdrop: z.string(),
+      button: z.string(),
+    })
+    .partial()
+    .strict()
+    .optional(),
+  autoHide: z.boolean().optional(),
+  autoHideTolerance: z.number().nonnegative().optional(),
+  autoHideVelocity: z.number().nonnegative().optional(),
+  enableCommandPalette: z.boolean().optional(),
+  commandPaletteRecents: z.number().int().nonnegative().optional(),
+  swipeToClose: z.boolean().optional(),
+  swipeToOpen: z.boolean().optional(),
+  swipeEdgeWidth: z.number().nonnegative().optional(),
+  swipeDistance: z.number().nonnegative().optional(),
+  swipeVelocity: z.number().nonnegative().optional(),
+  keyboardNavigation: z.enum(["tab", "roving"]).optional(),
+  drawerAnimation: z
+    .enum(["slide", "fade", "scale", "reveal", "push", "spring"])
+    .optional(),
+  drawerVariants: z
+    .object({
+      initial: z.custom<Variant>(),
+      animate: z.custom<Variant>(),
+      exit: z.custom<Variant>(),
+    })
+    .partial()
+    .strict()
+    .optional(),
+  linkStagger: z.number().nonnegative().optional(),
+  activeIndicator: z.enum(["background", "pill"]).optional(),
+  locale: z.string().optional(),
+  dir: z.enum(["ltr", "rtl", "auto"]).optional(),
+  messages: z
+    .object(
+      Object.fromEntries(messageKeys.map((key) => [key, z.string()])) as Record<
+        (typeof messageKeys)[number],
+        z.ZodString
+      >,
+    )
+    .partial()
+    .strict()
+    .optional(),
+  portalContainer: z.string().optional(),
+  zIndex: z
+    .object({
+      bar: z.number().int(),
+      overlay: z.number().int(),
+      palette: z.number().int(),
+    })
+    .partial()
+    .strict()
+    .optional(),
+};
+
+// One schema per NavbarConfig field, for checking fields on their own (the
+// playground validates URL and editor values with these)
+export const navbarConfigFieldSchemas = {
+  ...configFields,
+  breakpoints: z.record(z.string(), breakpoint).optional(),
+  responsive: z.record(z.string(), z.object(configFields).strict()).optional(),
+};
+
+const navbarConfigSchema = z.object(navbarConfigFieldSchemas).strict();
+
+// ============================================================================
+// CROSS-FIELD CHECKS
+// ============================================================================
+
+type Path = (string | number)[];
+
+// Every link with its path, mega menu columns included
+const walkLinks = (
+  links: NavLink[],
+  path: Path,
+): { link: NavLink; path: Path }[] =>
+  links.flatMap((link, index) => {
+    const linkPath = [...path, index];
+    return [
+      { link, path: linkPath },
+      ...walkLinks(link.children ?? [], [...linkPath, "children"]),
+      ...(link.megaMenu?.columns ?? []).flatMap((column, columnIndex) =>
+        walkLinks(column.links, [
+          ...linkPath,
+          "megaMenu",
+          "columns",
+          columnIndex,
+          "links",
+        ]),
+      ),
+    ];
+  });
+
+const formatPath = (path: Path) =>
+  path
+    .map((key, index) =>
+      typeof key === "number" ? `[${key}]` : index ? `.${key}` : key,
+    )
+    .join("");
+
+export const navigationConfigSchema = z
+  .object({
+    config: navbarConfigSchema.optional(),
+    links: z.array(navLinkSchema),
+    // Section ids on the page; "#anchor" hrefs must point to one of them.
+    // Defaults to the link ids, which single-page scroll spy observes.
+    sections: z.array(nonEmpty).optional(),
+  })
+  .strict()
+  .superRefine(({ config = {}, links, sections }, ctx) => {
+    const entries = walkLinks(links, ["links"]);
+
+    // An id may repeat only as an alias of the same destination (a mega
+    // menu entry for a top-level section); siblings must always differ
+    const firstById = new Map<string, { href: string; path: Path }>();
+    for (const { link, path } of entries) {
+      const first = firstById.get(link.id);
+      if (!first) {
+        firstById.set(link.id, { href: link.href, path });
+        continue;
+      }
+      const isSibling =
+        formatPath(first.path.slice(0, -1)) === formatPath(path.slice(0, -1));
+      if (isSibling || first.href !== link.href) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, "id"],
+          message: `Duplicate id "${link.id}" (already used at ${formatPath(first.path)}${isSibling ? "" : ` for "${first.href}"`})`,
+        });
+      }
+    }
+
+    const sectionIds = new Set(sections ?? entries.map(({ link }) => link.id));
+    for (const { link, path } of entries) {
+      if (ANCHOR.test(link.href) && !sectionIds.has(link.href.slice(1))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [...path, "href"],
+          message: `Anchor "${link.href}" does not match any section id${sections ? " in `sections`" : ""}`,
+        });
+      }
+    }
+
+    // Breakpoint names must exist (defaults or `breakpoints`)
+    const breakpointNames = Object.keys({
+      ...DEFAULT_BREAKPOINTS,
+      ...config.breakpoints,
+    });
+    const checkBreakpoint = (name: string, path: Path) => {
+      if (!breakpointNames.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: `Unknown breakpoint "${name}": expected one of ${breakpointNames.join(", ")}, or add it to \`breakpoints\``,
+        });
+      }
+    };
+
+    // Names used inside the base config and each responsive override
+    const checkFields = (fields: NavbarBreakpointOverrides, path: Path) => {
+      const { mobileBreakpoint } = fields;
+      if (
+        typeof mobileBreakpoint === "string" &&
+        !CSS_LENGTH.test(mobileBreakpoint)
+      ) {
+        checkBreakpoint(mobileBreakpoint, [...path, "mobileBreakpoint"]);
+      }
+      for (const key of ["width", "height"] as const) {
+        const value = fields[key];
+        if (typeof value !== "object") continue;
+        Object.keys(value)
+          .filter((name) => name !== "base")
+          .forEach((name) => checkBreakpoint(name, [...path, key, name]));
+      }
+    };
+
+    checkFields(config, ["config"]);
+    Object.entries(config.responsive ?? {}).forEach(([name, fields]) => {
+      const path = ["config", "responsive", name];
+      checkBreakpoint(name, path);
+      checkFields(fields, path);
+    });
+  });
+
+// What a config file holds. JSON configs cannot carry icons, predicates or
+// a mega menu's `featured` node; TS configs can.
+export interface NavigationConfigInput {
+  config?: NavbarConfig;
+  links: NavLink[];
+  sections?: string[];
+}
+
+// Ready to spread onto <Navbar>
+export type NavigationConfig = Required<Pick<NavbarProps, "config" | "links">>;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+// Validate a navigation config. Throws one error listing every issue with
+// its path, prefixed by `source` (the file name).
+export const parseNavigationConfig = (
+  input: unknown,
+  source = "navigation config",
+): NavigationConfig => {
+  const result = navigationConfigSchema.safeParse(input);
+  if (!result.success) {
+    throw new Error(
+      [
+        `Invalid navigation config in ${source}:`,
+        ...result.error.issues.map(
+          (issue) =>
+            `  - ${issue.path.length ? formatPath(issue.path) : "(root)"}: ${issue.message}`,
+        ),
+      ].join("\n"),
+    );
+  }
+  const { config = {}, links } = result.data;
+  return { config, links };
+};
+
+// Typed identity for TS configs, so editors check them while you type
+export const defineNavigation = (config: NavigationConfigInput) => config;
@@ -0,0 +1,127 @@
+// ============================================================================
+// BODY SCROLL LOCK
+// ============================================================================
+
+// Fixed elements that should keep their layout when the scrollbar goes away
+const COMPENSATE_SELECTOR = "[data-scroll-lock-compensate]";
+
+// Regions that may still scroll (by touch) while the page is locked
+const SCROLLABLE_SELECTOR = "[data-scroll-lock-scrollable]";
+
+let lockCount = 0;
+let unlock: (() => void) | null = null;
+let afterUnlock: (() => void)[] = [];
+
+// iOS Safari ignores `overflow: hidden` on body for touch scrolling, so
+// background touch moves are cancelled unless they scroll an allow-listed
+// region that still has room in that direction
+const preventBackgroundTouchScroll = () => {
+  let lastY = 0;
+
+  const handleTouchStart = (e: TouchEvent) => {
+    lastY = e.touches[0]?.clientY ?? 0;
+  };
+
+  const handleTouchMove = (e: TouchEvent) => {
+    const touch = e.touches[0];
+    if (!touch || e.touches.length > 1) return; // Leave pinch-zoom alone
+
+    const deltaY = touch.clientY - lastY;
+    lastY = touch.clientY;
+
+    const region =
+      e.target instanceof Element
+        ? e.target.closest<HTMLElement>(SCROLLABLE_SELECTOR)
+        : null;
+    if (region) {
+      const atTop = region.scrollTop <= 0 && deltaY > 0;
+      const atBottom =
+        region.scrollTop + region.clientHeight >= region.scrollHeight - 1 &&
+        deltaY < 0;
+      if (!atTop && !atBottom) return;
+    }
+
+    if (e.cancelable) e.preventDefault();
+  };
+
+  document.addEventListener("touchstart", handleTouchStart, { passive: true });
+  document.addEventListener("touchmove", handleTouchMove, { passive: false });
+  return () => {
+    document.removeEventListener("touchstart", handleTouchStart);
+    document.removeEventListener("touchmove", handleTouchMove);
+  };
+};
+
+// Pin the body with `position: fixed` at the current scroll offset, pad it
+// (and compensated fixed elements) by the scrollbar width, and undo it all
+// afterwards, restoring the scroll position
+const applyLock = () => {
+  const { body, documentElement } = document;
+  const scrollX = window.scrollX;
+  const scrollY = window.scrollY;
+  const scrollbarWidth = window.innerWidth - documentElement.clientWidth;
+
+  const bodyStyle = body.style.cssText;
+  Object.assign(body.style, {
+    position: "fixed",
+    top: `${-scrollY}px`,
+    left: `${-scrollX}px`,
+    right: "0",
+    overflow: "hidden",
+    paddingRight: `${scrollbarWidth}px`,
+  });
+
+  const compensated = [
+    ...document.querySelectorAll<HTMLElement>(COMPENSATE_SELECTOR),
+  ].map((element) => {
+    const paddingRight = element.style.paddingRight;
+    const computed = parseFloat(getComputedStyle(element).paddingRight) || 0;
+    element.style.paddingRight = `${computed + scrollbarWidth}px`;
+    return () => (element.style.paddingRight = paddingRight);
+  });
+
+  const releaseTouch = preventBackgroundTouchScroll();
+
+  return () => {
+    releaseTouch();
+    compensated.forEach((restore) => restore());
+    body.style.cssText = bodyStyle;
+
+    // Jump straight back, even if the page uses smooth scrolling
+    const scrollBehavior = documentElement.style.scrollBehavior;
+    documentElement.style.scrollBehavior = "auto";
+    window.scrollTo(scrollX, scrollY);
+    documentElement.style.scrollBehavior = scrollBehavior;
+  };
+};
+
+// While locked the body is pinned and window.scrollY reads 0, so scroll
+// listeners should skip updates until the lock is released
+export const isBodyScrollLocked = () => lockCount > 0;
+
+// Reference-counted: the page is locked by the first caller and unlocked
+// when the last one releases, so overlapping locks can't clobber each other.
+// Returns the release function (safe to call more than once).
+export const lockBodyScroll = () => {
+  if (lockCount++ === 0) unlock = applyLock();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    if (--lockCount === 0) {
+      unlock?.();
+      unlock = null;
+      const callbacks = afterUnlock;
+      afterUnlock = [];
+      callbacks.forEach((callback) => callback());
+    }
+  };
+};
+
+// Run once the page scrolls freely again (immediately when not locked), so
+// programmatic scrolling isn't undone by the position restore
+export const whenBodyScrollUnlocked = (callback: () => void) => {
+  if (lockCount > 0) afterUnlock.push(callback);
+  else callback();
+};
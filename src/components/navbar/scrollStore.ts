@@ -0,0 +1,71 @@
+import { isBodyScrollLocked } from "./scrollLock";
+
+// ============================================================================
+// SCROLL STORE
+// ============================================================================
+
+// One passive scroll/resize listener for the whole page, however many hooks
+// read it. Events are coalesced into a single read per animation frame, then
+// subscribers are notified. Hooks select from the snapshot through
+// useSyncExternalStore, so they re-render only when their selection changes.
+
+export interface ScrollSnapshot {
+  y: number;
+  maxY: number; // Scrollable distance: document height minus the viewport
+  time: number; // performance.now() of the read
+}
+
+export const SERVER_SCROLL_SNAPSHOT: ScrollSnapshot = {
+  y: 0,
+  maxY: 0,
+  time: 0,
+};
+
+let snapshot = SERVER_SCROLL_SNAPSHOT;
+let frame = 0;
+const listeners = new Set<() => void>();
+
+// Kept as is while the body scroll lock pins the page (scrollY reads 0)
+const read = () => {
+  if (isBodyScrollLocked()) return false;
+  snapshot = {
+    y: window.scrollY,
+    maxY: Math.max(
+      document.documentElement.scrollHeight - window.innerHeight,
+      0,
+    ),
+    time: performance.now(),
+  };
+  return true;
+};
+
+const flush = () => {
+  frame = 0;
+  if (read()) listeners.forEach((listener) => listener());
+};
+
+const schedule = () => {
+  if (!frame) frame = requestAnimationFrame(flush);
+};
+
+// The first subscriber attaches the listeners and takes a fresh reading, so
+// useSyncExternalStore's post-subscribe check sees the current position
+export const subscribeToScroll = (listener: () => void) => {
+  if (!listeners.size) {
+    read();
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size) return;
+    window.removeEventListener("scroll", schedule);
+    window.removeEventListener("resize", schedule);
+    cancelAnimationFrame(frame);
+    frame = 0;
+  };
+};
+
+export const getScrollSnapshot = () => snapshot;
@@ -0,0 +1,253 @@
+import { type Variant } from "framer-motion";
+import { type LucideIcon } from "lucide-react";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type PhysicalSide = "left" | "right" | "top" | "bottom";
+
+// "start"/"end" are logical: left/right in LTR, mirrored in RTL
+export type NavSide = PhysicalSide | "start" | "end";
+
+export type TextDirection = "ltr" | "rtl";
+
+// "auto" follows the document's `dir`
+export type NavDirection = TextDirection | "auto";
+
+export type NavMode = "singlepage" | "multipage";
+
+// Below the mobile breakpoint: "bar" opens everything from the hamburger;
+// "bottom-tabs" adds a fixed tab bar for the first links and a "More" tab
+// that opens the drawer with the rest
+export type NavLayout = "bar" | "bottom-tabs";
+
+// "tab": every item is a tab stop. "roving": one tab stop per list, arrow
+// keys/Home/End move between items and typing jumps by first letters.
+export type KeyboardNavigation = "tab" | "roving";
+
+// Drawer entrance. "reveal" grows a circle out of the hamburger button;
+// "push" moves the bar and any `[data-nav-push]` content with the panel.
+export type DrawerAnimation =
+  | "slide"
+  | "fade"
+  | "scale"
+  | "reveal"
+  | "push"
+  | "spring";
+
+// Custom framer-motion states for the drawer panel, replacing the preset's.
+// Each may carry its own `transition`.
+export interface DrawerVariants {
+  initial?: Variant;
+  animate?: Variant;
+  exit?: Variant;
+}
+
+// How the active desktop link is highlighted: a static background, or a
+// "pill" that glides between links when the active one changes
+export type ActiveIndicator = "background" | "pill";
+
+export type ScrollDirection = "up" | "down" | null;
+
+export type NavColorScheme = "system" | "light" | "dark";
+
+// Every string the navbar renders or announces. `{name}` and `{query}` are
+// replaced at render time.
+export interface NavbarMessages {
+  navigation: string; // Bar's aria-label (unless `ariaLabel` is set)
+  desktopNavigation: string;
+  menu: string; // Drawer dialog
+  openMenu: string;
+  closeMenu: string;
+  back: string; // Drill-down back button
+  searchLinks: string; // Palette trigger, dialog and input
+  searchPlaceholder: string;
+  searchResults: string; // Palette listbox
+  recentLinks: string;
+  allLinks: string;
+  matchingLinks: string;
+  noMatches: string; // {query}
+  opensInNewTab: string;
+  account: string; // Drawer account section
+  accountMenu: string; // {name}
+  language: string; // Locale switcher
+  tabBar: string; // Bottom tab bar
+  more: string; // Bottom tab that opens the drawer
+}
+
+// Extra classes appended to each part, for restyling without forking
+export interface NavbarClassNames {
+  nav?: string;
+  link?: string;
+  activeLink?: string; // Added on top of `link` for the active item
+  panel?: string;
+  backdrop?: string;
+  button?: string; // Hamburger, close and back buttons
+}
+
+// Stacking order of the navbar's layers. The bar also carries its dropdowns
+// and the bottom tab bar; the overlay is the drawer with its backdrop.
+export interface NavbarZIndex {
+  bar?: number;
+  overlay?: number;
+  palette?: number; // Command palette, above the drawer it replaces
+}
+
+// Named breakpoint ("md", or a custom name from `breakpoints`), a pixel
+// number, or any CSS length ("60em")
+export type Breakpoint =
+  | "sm"
+  | "md"
+  | "lg"
+  | "xl"
+  | "2xl"
+  | (string & Record<never, never>)
+  | number;
+
+// CSS size per breakpoint (mobile-first): `base`, then the largest match wins
+export interface ResponsiveWidth {
+  base?: string;
+  [breakpoint: string]: string | undefined;
+}
+
+// Config fields that can be overridden per breakpoint
+export type NavbarBreakpointOverrides = Omit<
+  NavbarConfig,
+  "breakpoints" | "responsive"
+>;
+
+export interface LogoScale {
+  initial: number;
+  scrolled: number;
+}
+
+export interface MegaMenuColumn {
+  heading: string;
+  links: NavLink[];
+}
+
+export interface MegaMenu {
+  columns: MegaMenuColumn[];
+  featured?: React.ReactNode; // Optional promo slot rendered beside the columns
+}
+
+// Signed-in user, shown in the user menu and checked against `roles` and
+// `permissions` on links
+export interface NavUser {
+  name: string;
+  email?: string;
+  image?: string; // Avatar URL; initials are shown without one
+  roles?: string[];
+  permissions?: string[];
+}
+
+// What a `visible` predicate can decide on
+export interface NavLinkContext {
+  pathname: string;
+  isDesktop: boolean; // Filtering for the desktop bar rather than the drawer/tab bar
+  user: NavUser | null; // null when signed out
+}
+
+export interface NavLink {
+  id: string;
+  label: string;
+  href: string;
+  description?: string; // Shown under the label inside mega menus
+  icon?: LucideIcon;
+  match?: "exact" | "prefix"; // Route matching in multipage mode (default: exact)
+  prefetch?: boolean; // Passed to next/link in multipage mode
+  children?: NavLink[]; // Rendered as a dropdown (desktop) / accordion (mobile)
+  megaMenu?: MegaMenu; // Full-width panel (desktop) / drill-down view (mobile)
+  keywords?: string[]; // Extra search terms for the command palette
+  badge?: number | string; // Count or short label after the text, announced on change
+  external?: boolean; // New tab with rel="noopener noreferrer", browser handles the click
+  target?: string; // Anything but "_self" also leaves the click to the browser
+  rel?: string;
+  download?: boolean | string; // Download instead of navigating (optional file name)
+  disabled?: boolean; // Rendered but not actionable (aria-disabled)
+  visible?: boolean | ((context: NavLinkContext) => boolean); // Hidden when false
+  roles?: string[]; // Signed-in users with any of these roles only
+  permissions?: string[]; // Signed-in users with all of these permissions only
+}
+
+// User menu entry that runs a callback instead of navigating ("Sign out")
+export interface NavAction {
+  id: string;
+  label: string;
+  icon?: LucideIcon;
+  onSelect: () => void;
+}
+
+export type UserMenuItem = NavLink | NavAction;
+
+export interface NavbarConfig {
+  mode?: NavMode; // "multipage" derives the active link from the App Router
+  layout?: NavLayout;
+  bottomTabCount?: number; // Links shown as bottom tabs before "More"
+  side?: NavSide;
+  width?: string | ResponsiveWidth; // Drawer width for left/right sides
+  height?: string | ResponsiveWidth; // Drawer height for top/bottom sides
+  initialBg?: string;
+  scrolledBg?: string;
+  scrollThreshold?: number;
+  logoScale?: LogoScale;
+  closeOnRouteChange?: boolean;
+  trapFocus?: boolean;
+  disableBodyScrollOnOpen?: boolean;
+  ariaLabel?: string;
+  animateDuration?: number;
+  enableScrollSpy?: boolean;
+  scrollSpyOffset?: number | "auto"; // Header offset in px; "auto" measures the nav
+  scrollSpyRootMargin?: string; // IntersectionObserver rootMargin override
+  scrollSpyThreshold?: number[]; // IntersectionObserver thresholds
+  scrollSpySyncHash?: boolean; // Mirror the active section into the URL hash
+  mobileBreakpoint?: Breakpoint; // When to show hamburger vs full nav
+  megaMenuHoverDelay?: number; // Hover intent delay (ms) before opening/closing
+  colorScheme?: NavColorScheme; // "system" follows prefers-color-scheme
+  classNames?: NavbarClassNames;
+  autoHide?: boolean; // Hide the bar on scroll down, reveal on scroll up
+  autoHideTolerance?: number; // Pixels scrolled before the direction flips
+  autoHideVelocity?: number; // Minimum speed (px/ms) for a flip to count
+  breakpoints?: Record<string, number | string>; // Extra/overridden min-widths
+  responsive?: Record<string, NavbarBreakpointOverrides>; // Keyed by breakpoint
+  enableCommandPalette?: boolean; // Search trigger in the bar + Cmd/Ctrl+K
+  commandPaletteRecents?: number; // Recent entries kept in localStorage (0: off)
+  swipeToClose?: boolean; // Drag the drawer back towards its side to close it
+  swipeToOpen?: boolean; // Swipe inwards from the drawer's screen edge to open
+  swipeEdgeWidth?: number; // Edge zone (px) where an opening swipe may start
+  swipeDistance?: number; // Travel (px) that completes a swipe
+  swipeVelocity?: number; // Or a release speed (px/s) that completes it
+  keyboardNavigation?: KeyboardNavigation;
+  drawerAnimation?: DrawerAnimation;
+  drawerVariants?: DrawerVariants; // Escape hatch over the preset's states
+  linkStagger?: number; // Delay (s) between drawer link entrances (0: off)
+  activeIndicator?: ActiveIndicator;
+  locale?: string; // Picks the built-in messages ("en", "de", "ar", …)
+  dir?: NavDirection;
+  messages?: Partial<NavbarMessages>; // Overrides for the locale's strings
+  portalContainer?: string; // Selector the drawer and palette render into ("": inline)
+  zIndex?: NavbarZIndex; // Merged over the default layers
+}
+
+// Entry in the locale switcher
+export interface NavLocale {
+  code: string; // BCP 47 tag, e.g. "de" or "ar-EG"
+  label: string; // Shown in its own language, e.g. "Deutsch"
+}
+
+export interface NavbarProps {
+  config?: NavbarConfig;
+  logo?: React.ReactNode;
+  links: NavLink[];
+  onNavigate?: (href: string) => void; // Replaces the built-in scroll/route
+  onLinkSelect?: (href: string) => void; // Notified of every link followed
+  onOpen?: () => void; // Drawer opened
+  onClose?: () => void; // Drawer closed
+  onSectionChange?: (id: string) => void; // Scroll spy moved to a section
+  actions?: React.ReactNode; // Right side of the bar, e.g. a sign-in button
+  user?: NavUser | null; // Signed-in user (null or unset: signed out)
+  userMenu?: UserMenuItem[]; // Avatar dropdown (desktop) / drawer section (mobile)
+  locales?: NavLocale[]; // Shows a locale switcher in the bar and the drawer
+  onLocaleChange?: (locale: string) => void;
+}
@@ -0,0 +1,777 @@
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { usePathname, useRouter } from "next/navigation";
+
+import { type AnimationOrigin } from "./animations";
+import { DEFAULT_BREAKPOINTS, DEFAULT_NAVBAR_CONFIG } from "./config";
+import { formatMessage, resolveMessages, toPhysicalSide } from "./i18n";
+import {
+  useElementHeight,
+  useEdgeSwipe,
+  useLockBodyScroll,
+  useOverlay,
+  usePortalTarget,
+  useRecentLinks,
+  useRovingFocus,
+  useScrollDirection,
+  useScrollSpy,
+  useScrollState,
+  useVirtualKeyboardOpen,
+} from "./hooks";
+import { announceNavbarOpen, subscribeToNavbarInstances } from "./instances";
+import {
+  useActiveBreakpoints,
+  useMediaQuery,
+  useDocumentDirection,
+  usePreferences,
+} from "./preferences";
+import { whenBodyScrollUnlocked } from "./scrollLock";
+import {
+  type NavAction,
+  type NavbarConfig,
+  type NavLink,
+  type NavUser,
+  type UserMenuItem,
+} from "./types";
+import {
+  filterVisibleLinks,
+  findRouteLink,
+  flattenLinks,
+  followNativeLink,
+  getNativeLinkAttributes,
+  isLinkActive,
+  isLinkVisible,
+  isNativeLink,
+  isNativeLinkClick,
+  resolveConfig,
+  toBreakpointCss,
+  toMinWidthQuery,
+  towardsEdge,
+} from "./utils";
+
+// ============================================================================
+// HEADLESS HOOK
+// ============================================================================
+
+export interface UseNavbarOptions {
+  onNavigate?: (href: string) => void; // Replaces the built-in scroll/route
+  onLinkSelect?: (href: string) => void; // Notified of every link followed
+  onOpen?: () => void; // Drawer opened
+  onClose?: () => void; // Drawer closed
+  onSectionChange?: (id: string) => void; // Scroll spy moved to a section
+  user?: NavUser | null; // Signed-in user; drives `roles`/`permissions`
+  userMenu?: UserMenuItem[];
+}
+
+type ClickHandler<T> = (e: React.MouseEvent<T>) => void;
+
+const USER_MENU_ID = "user-menu"; // Key in openDropdownId
+
+// All Navbar behavior without markup: state, actions and prop getters that
+// carry the ARIA wiring. Spread the getters onto your own elements.
+export const useNavbar = (
+  config: NavbarConfig = {},
+  links: NavLink[],
+  {
+    onNavigate,
+    onLinkSelect,
+    onOpen,
+    onClose,
+    onSectionChange,
+    user = null,
+    userMenu = [],
+  }: UseNavbarOptions = {},
+) => {
+  // Breakpoints: which are active, and the config resolved for them
+  const breakpoints = { ...DEFAULT_BREAKPOINTS, ...config.breakpoints };
+  const activeBreakpoints = useActiveBreakpoints(breakpoints);
+  const resolvedConfig = resolveConfig(config, activeBreakpoints);
+
+  const {
+    mode,
+    layout,
+    bottomTabCount,
+    scrollThreshold,
+    closeOnRouteChange,
+    trapFocus,
+    disableBodyScrollOnOpen,
+    ariaLabel,
+    animateDuration,
+    enableScrollSpy,
+    scrollSpyOffset,
+    scrollSpyRootMargin,
+    scrollSpyThreshold,
+    scrollSpySyncHash,
+    mobileBreakpoint,
+    colorScheme,
+    autoHide,
+    autoHideTolerance,
+    autoHideVelocity,
+    enableCommandPalette,
+    commandPaletteRecents,
+    side: logicalSide,
+    swipeToOpen,
+    swipeEdgeWidth,
+    swipeDistance,
+    swipeVelocity,
+    keyboardNavigation,
+    locale,
+    dir,
+    messages: messageOverrides,
+    portalContainer,
+  } = resolvedConfig;
+  const zIndex = { ...DEFAULT_NAVBAR_CONFIG.zIndex, ...resolvedConfig.zIndex };
+
+  // Ids are unique per instance, so several navbars can share a page.
+  // `getItemId` scopes the ids of per-link elements (dropdown panels, …).
+  const instanceId = useId();
+  const panelId = `${instanceId}-panel`;
+  const userMenuId = `${instanceId}-user-menu`;
+  const getItemId = useCallback(
+    (kind: string, linkId: string) => `${instanceId}-${kind}-${linkId}`,
+    [instanceId],
+  );
+
+  // Where the drawer and palette are portaled; null (rendered inline) on the
+  // server, during hydration and while the container doesn't exist
+  const portalTarget = usePortalTarget(portalContainer);
+
+  // Strings for the locale, and the writing direction ("auto" follows the
+  // document); "start"/"end" sides become physical ones from here on
+  const messages = useMemo(
+    () => resolveMessages(locale, messageOverrides),
+    [locale, messageOverrides],
+  );
+  const documentDirection = useDocumentDirection();
+  const direction = dir === "auto" ? documentDirection : dir;
+  const dirAttribute = dir === "auto" ? undefined : dir;
+  const side = toPhysicalSide(logicalSide, direction);
+
+  // Live OS preferences (server/hydration defaults first, no mismatch)
+  const preferences = usePreferences();
+
+  // Theme tokens switch on this attribute; unset follows the OS preference
+  // in CSS, so the markup is the same on server and client. The resolved
+  // scheme is "light" until hydration: use it for behavior, not styling.
+  const themeAttribute = colorScheme === "system" ? undefined : colorScheme;
+  const resolvedColorScheme =
+    colorScheme === "system" ? preferences.colorScheme : colorScheme;
+
+  // Full nav at/above the mobile breakpoint, hamburger below it. Both are
+  // rendered and shown by breakpointCss; the JS match (false on the server)
+  // only drives behavior: closing the drawer, edge swipe, the palette.
+  const breakpointQuery = toMinWidthQuery(mobileBreakpoint, breakpoints);
+  const isDesktop = useMediaQuery(breakpointQuery);
+  const breakpointCss = useMemo(
+    () => toBreakpointCss(instanceId, breakpointQuery),
+    [instanceId, breakpointQuery],
+  );
+
+  // State
+  const [isOpen, setIsOpen] = useState(false);
+  const [currentRoute, setCurrentRoute] = useState("");
+  const [openDropdownId, setOpenDropdownId] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [drillDownId, setDrillDownId] = useState<string | null>(null);
+  const [hasFocusWithin, setHasFocusWithin] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [paletteShortcut, setPaletteShortcut] = useState("Ctrl K");
+  const [recentHrefs, addRecentHref] = useRecentLinks(commandPaletteRecents);
+  const [menuOrigin, setMenuOrigin] = useState<AnimationOrigin | null>(null);
+  const isScrolled = useScrollState(scrollThreshold);
+  // Direction is only needed (and subscribed to) for auto-hide
+  const scrollDirection = useScrollDirection(
+    autoHideTolerance,
+    autoHideVelocity,
+    autoHide,
+  );
+  const menuRef = useRef<HTMLDivElement | null>(null);
+  const backdropRef = useRef<HTMLDivElement | null>(null);
+  const navRef = useRef<HTMLElement | null>(null);
+
+  // Current App Router pathname (drives the active link in multipage mode)
+  const pathname = usePathname();
+  const router = useRouter();
+
+  // Links visible to this user, per tree: `isDesktop` tells a `visible`
+  // predicate which one it is filtering for, so the server HTML holds both.
+  // Everything else (palette, scroll spy, route matching) works on the
+  // current viewport's set. The user menu only exists while signed in.
+  // Memoized so link items keep their props (and skip rendering) while the
+  // page scrolls.
+  const barLinks = useMemo(
+    () => filterVisibleLinks(links, { pathname, isDesktop: true, user }),
+    [links, pathname, user],
+  );
+  const mobileLinks = useMemo(
+    () => filterVisibleLinks(links, { pathname, isDesktop: false, user }),
+    [links, pathname, user],
+  );
+  const visibleLinks = isDesktop ? barLinks : mobileLinks;
+  const visibleUserMenu = useMemo(
+    () =>
+      user
+        ? userMenu.filter(
+            (item) =>
+              !("href" in item) ||
+              isLinkVisible(item, { pathname, isDesktop, user }),
+          )
+        : [],
+    [userMenu, pathname, isDesktop, user],
+  );
+
+  // Section IDs for scroll spy (nested children included), one stable list
+  // per set of links
+  const sectionIds = useMemo(
+    () => [...new Set(flattenLinks(visibleLinks).map((link) => link.id))],
+    [visibleLinks],
+  );
+  // Bottom tabs (below the mobile breakpoint): the first links get a tab,
+  // the rest move into the drawer behind "More"
+  const hasTabBar = layout === "bottom-tabs";
+  const tabLinks = useMemo(
+    () => (hasTabBar ? mobileLinks.slice(0, bottomTabCount) : []),
+    [hasTabBar, mobileLinks, bottomTabCount],
+  );
+  const drawerLinks = useMemo(
+    () => (hasTabBar ? mobileLinks.slice(bottomTabCount) : mobileLinks),
+    [hasTabBar, mobileLinks, bottomTabCount],
+  );
+  // A fixed bottom bar would ride on top of the on-screen keyboard
+  const isTabBarHidden = useVirtualKeyboardOpen();
+
+  const isMultipage = mode === "multipage";
+  const scrollSpyEnabled = enableScrollSpy && !isMultipage;
+  const navHeight = useElementHeight(navRef);
+  const scrollOffset =
+    scrollSpyOffset === "auto" ? Math.round(navHeight) : scrollSpyOffset;
+  const activeScrollSpyId = useScrollSpy(sectionIds, scrollSpyEnabled, {
+    offset: scrollOffset,
+    rootMargin: scrollSpyRootMargin || undefined,
+    threshold: scrollSpyThreshold,
+  });
+
+  // Keep the URL hash in sync with the section being read
+  useEffect(() => {
+    if (!scrollSpyEnabled || !scrollSpySyncHash || !activeScrollSpyId) return;
+    const hash = `#${activeScrollSpyId}`;
+    if (window.location.hash !== hash) {
+      window.history.replaceState(window.history.state, "", hash);
+    }
+  }, [scrollSpyEnabled, scrollSpySyncHash, activeScrollSpyId]);
+
+  // Lifecycle events. Latest callbacks without re-running the effects.
+  const eventsRef = useRef({ onOpen, onClose, onSectionChange, onLinkSelect });
+  useEffect(() => {
+    eventsRef.current = { onOpen, onClose, onSectionChange, onLinkSelect };
+  });
+
+  const wasOpenRef = useRef(isOpen);
+  useEffect(() => {
+    if (wasOpenRef.current === isOpen) return;
+    wasOpenRef.current = isOpen;
+    if (isOpen) eventsRef.current.onOpen?.();
+    else eventsRef.current.onClose?.();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (scrollSpyEnabled && activeScrollSpyId) {
+      eventsRef.current.onSectionChange?.(activeScrollSpyId);
+    }
+  }, [scrollSpyEnabled, activeScrollSpyId]);
+
+  // Determine active link
+  const activeLink = isMultipage
+    ? (findRouteLink(visibleLinks, pathname)?.href ?? pathname)
+    : scrollSpyEnabled
+      ? activeScrollSpyId
+      : currentRoute;
+
+  // "More" is the active tab while the active link lives in the drawer
+  const isMoreActive =
+    hasTabBar && drawerLinks.some((link) => isLinkActive(link, activeLink));
+
+  const toggleGroup = useCallback((id: string) => {
+    setExpandedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id],
+    );
+  }, []);
+
+  // Lock body scroll when menu is open (mobile only)
+  useLockBodyScroll((isOpen && disableBodyScrollOnOpen) || isPaletteOpen);
+
+  // Animations collapse to instant while reduced motion is preferred. This
+  // reads false on the server and during hydration, so Navbar also wraps
+  // itself in MotionConfig reducedMotion="user": framer-motion checks the
+  // OS setting itself, from the first animation on.
+  const prefersReducedMotion = preferences.reducedMotion;
+
+  const duration = prefersReducedMotion ? 0 : animateDuration / 1000;
+
+  // Open menu handler - expands accordion groups containing the active link
+  const openMenu = () => {
+    setExpandedIds((prev) => [
+      ...new Set([
+        ...prev,
+        ...flattenLinks(mobileLinks)
+          .filter(
+            (link) => link.children?.length && isLinkActive(link, activeLink),
+          )
+          .map((link) => link.id),
+      ]),
+    ]);
+    setIsOpen(true);
+  };
+
+  // Edge swipe opens the drawer (below the mobile breakpoint only)
+  useEdgeSwipe(
+    swipeToOpen && !isDesktop && !isOpen && !isPaletteOpen,
+    side,
+    () => {
+      setMenuOrigin(null); // "reveal" grows from the drawer's edge instead
+      openMenu();
+    },
+    {
+      edgeWidth: swipeEdgeWidth,
+      distance: swipeDistance,
+      velocity: swipeVelocity,
+    },
+  );
+
+  // Roving focus: one tab stop for the desktop bar, one for the drawer
+  const isRoving = keyboardNavigation === "roving";
+  const barListRef = useRovingFocus(isRoving, "horizontal");
+  const drawerListRef = useRovingFocus(isRoving, "vertical");
+
+  // Whether a drag released at this offset/velocity should close the drawer
+  const isSwipeDismiss = (
+    offset: { x: number; y: number },
+    velocity: { x: number; y: number },
+  ) =>
+    towardsEdge(side, offset) >= swipeDistance ||
+    towardsEdge(side, velocity) >= swipeVelocity;
+
+  // Leave a mega menu drill-down and refocus the item that opened it
+  const drillUp = () => {
+    const previousId = drillDownId;
+    setDrillDownId(null);
+    requestAnimationFrame(() =>
+      document
+        .getElementById(getItemId("drill-down", previousId ?? ""))
+        ?.focus(),
+    );
+  };
+
+  const drillDownLink = mobileLinks.find((link) => link.id === drillDownId);
+
+  // Close menu handler (the overlay hands focus back to its opener)
+  const closeMenu = useCallback(() => {
+    setIsOpen(false);
+    setDrillDownId(null);
+  }, []);
+
+  // Drawer as a modal overlay: Escape, focus restore and, with trapFocus,
+  // a focus trap with the page behind it inert (the backdrop stays clickable)
+  useOverlay(isOpen, menuRef, {
+    onClose: closeMenu,
+    trapFocus,
+    keepRefs: [backdropRef],
+  });
+
+  // The drawer only exists below the mobile breakpoint
+  useEffect(() => {
+    if (isDesktop) setIsOpen(false);
+    else setOpenDropdownId(null);
+  }, [isDesktop]);
+
+  // Close menus on any route change (links, back/forward, router.push)
+  const previousPathname = useRef(pathname);
+  useEffect(() => {
+    if (previousPathname.current === pathname) return;
+    previousPathname.current = pathname;
+
+    setOpenDropdownId(null);
+    if (closeOnRouteChange && isOpen) {
+      closeMenu();
+    }
+  }, [pathname, closeOnRouteChange, isOpen, closeMenu]);
+
+  // Track current route
+  useEffect(() => {
+    if (typeof window !== "undefined") {
+      // ensure we always set a string (fixes the string | undefined problem)
+      setCurrentRoute(window.location.hash ?? links[0]?.href ?? "");
+    }
+  }, [links]);
+
+  // Handle link click
+  const handleLinkClick = (href: string) => {
+    if (closeOnRouteChange) {
+      closeMenu();
+    }
+
+    setCurrentRoute(href);
+    eventsRef.current.onLinkSelect?.(href);
+    if (enableCommandPalette) addRecentHref(href);
+
+    if (onNavigate) {
+      onNavigate(href);
+    } else if (scrollSpyEnabled) {
+      // Scroll so the section starts just below the fixed navbar, once
+      // the drawer's scroll lock (if any) has let go of the page
+      whenBodyScrollUnlocked(() => {
+        const element = document.getElementById(href.replace("#", ""));
+        if (element) {
+          window.scrollTo({
+            top:
+              element.getBoundingClientRect().top +
+              window.scrollY -
+              scrollOffset,
+            behavior: prefersReducedMotion ? "auto" : "smooth",
+          });
+        }
+      });
+    }
+  };
+
+  // Command palette: the drawer closes underneath it. The palette is an
+  // overlay itself, so focus returns to whatever opened it.
+  const openPalette = useCallback(() => {
+    setIsOpen(false);
+    setDrillDownId(null);
+    setIsPaletteOpen(true);
+  }, []);
+
+  const closePalette = useCallback(() => setIsPaletteOpen(false), []);
+
+  // Opening this drawer or palette closes those of other navbars
+  useEffect(
+    () =>
+      subscribeToNavbarInstances(instanceId, () => {
+        closeMenu();
+        closePalette();
+      }),
+    [instanceId, closeMenu, closePalette],
+  );
+
+  useEffect(() => {
+    if (isOpen || isPaletteOpen) announceNavbarOpen(instanceId);
+  }, [isOpen, isPaletteOpen, instanceId]);
+
+  // The desktop user menu shares openDropdownId with the link dropdowns, so
+  // only one of them is open at a time
+  const isUserMenuOpen = openDropdownId === USER_MENU_ID;
+
+  // Closing only clears the dropdown if it is still the open one
+  const toggleDropdown = useCallback((id: string, open: boolean) => {
+    setOpenDropdownId((current) =>
+      open ? id : current === id ? null : current,
+    );
+  }, []);
+
+  const setUserMenuOpen = useCallback(
+    (open: boolean) => toggleDropdown(USER_MENU_ID, open),
+    [toggleDropdown],
+  );
+
+  // User menu actions ("Sign out") close whatever they were picked from
+  const selectUserAction = (action: NavAction) => {
+    setOpenDropdownId(null);
+    if (isOpen) closeMenu();
+    action.onSelect();
+  };
+
+  // Palette entries go through the same path as link clicks; in multipage
+  // mode there is no next/link to follow, so route explicitly. Links the
+  // browser would handle (external, targeted, downloads) are followed
+  // through a real anchor with their own attributes.
+  const selectPaletteLink = (link: NavLink) => {
+    setIsPaletteOpen(false);
+    if (isNativeLink(link)) {
+      eventsRef.current.onLinkSelect?.(link.href);
+      addRecentHref(link.href);
+      followNativeLink(link);
+      return;
+    }
+    if (isMultipage) router.push(link.href);
+    handleLinkClick(link.href);
+  };
+
+  // Global Cmd/Ctrl+K shortcut
+  useEffect(() => {
+    if (!enableCommandPalette) return;
+
+    const handleShortcut = (e: KeyboardEvent) => {
+      // With several palettes on the page, the first listener takes it
+      if (e.defaultPrevented) return;
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        if (isPaletteOpen) closePalette();
+        else openPalette();
+      }
+    };
+
+    document.addEventListener("keydown", handleShortcut);
+    return () => document.removeEventListener("keydown", handleShortcut);
+  }, [enableCommandPalette, isPaletteOpen, openPalette, closePalette]);
+
+  // Show the shortcut the way the platform writes it
+  useEffect(() => {
+    if (/Mac|iPhone|iPad/.test(navigator.userAgent)) setPaletteShortcut("⌘K");
+  }, []);
+
+  // Auto-hide: stays pinned near the top, while a menu is open or focused
+  const isHidden =
+    autoHide &&
+    isScrolled &&
+    scrollDirection === "down" &&
+    !isOpen &&
+    !isPaletteOpen &&
+    !openDropdownId &&
+    !hasFocusWithin;
+
+  // --------------------------------------------------------------------------
+  // Prop getters
+  // --------------------------------------------------------------------------
+
+  const getNavProps = () => ({
+    ref: navRef,
+    dir: dirAttribute,
+    "aria-label": ariaLabel || messages.navigation,
+    "data-nav-theme": themeAttribute,
+    "data-scroll-direction": scrollDirection ?? undefined,
+    "data-hidden": isHidden || undefined,
+    "data-scroll-lock-compensate": "",
+    onFocus: () => setHasFocusWithin(true),
+    onBlur: (e: React.FocusEvent<HTMLElement>) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        setHasFocusWithin(false);
+      }
+    },
+  });
+
+  // Opening from the button records its center for the "reveal" preset
+  const getToggleProps = () => ({
+    type: "button" as const,
+    onClick: (e: React.MouseEvent<HTMLElement>) => {
+      if (isOpen) return closeMenu();
+      const rect = e.currentTarget.getBoundingClientRect();
+      setMenuOrigin({
+        x: rect.left + rect.width / 2,
+        y: rect.top + rect.height / 2,
+      });
+      openMenu();
+    },
+    "aria-expanded": isOpen,
+    "aria-controls": panelId,
+    "aria-label": messages.openMenu,
+  });
+
+  // Marks an element as part of the desktop or mobile tree; breakpointCss
+  // hides it on the other side of the mobile breakpoint
+  const getBreakpointProps = (part: "desktop" | "mobile") => ({
+    "data-nav-instance": instanceId,
+    "data-nav-breakpoint": part,
+  });
+
+  // Bottom tab bar; hidden (and inert) while the on-screen keyboard is open
+  const getTabBarProps = () => ({
+    ...getBreakpointProps("mobile"),
+    dir: dirAttribute,
+    "aria-label": messages.tabBar,
+    "data-nav-theme": themeAttribute,
+    "data-hidden": isTabBarHidden || undefined,
+    "data-scroll-lock-compensate": "",
+    inert: isTabBarHidden || undefined,
+  });
+
+  // "More" tab: opens the drawer like the hamburger, labelled by its text
+  const getMoreTabProps = () => ({
+    ...getToggleProps(),
+    "aria-label": undefined,
+    "data-active": isMoreActive || undefined,
+  });
+
+  const getPanelProps = () => ({
+    ref: menuRef,
+    id: panelId,
+    role: "dialog" as const,
+    dir: dirAttribute,
+    "aria-modal": trapFocus,
+    "aria-label": messages.menu,
+    "data-nav-theme": themeAttribute,
+    "data-scroll-lock-scrollable": "",
+  });
+
+  const getBackdropProps = () => ({
+    ref: backdropRef,
+    onClick: closeMenu,
+    "aria-hidden": true,
+    "data-nav-theme": themeAttribute,
+  });
+
+  const getCloseProps = () => ({
+    type: "button" as const,
+    onClick: closeMenu,
+    "aria-label": messages.closeMenu,
+  });
+
+  // Avatar button for the desktop user menu (disclosure, panel userMenuId)
+  const getUserMenuToggleProps = () => ({
+    type: "button" as const,
+    onClick: () => setUserMenuOpen(!isUserMenuOpen),
+    "aria-expanded": isUserMenuOpen,
+    "aria-controls": userMenuId,
+    "aria-label": formatMessage(messages.accountMenu, {
+      name: user?.name ?? "",
+    }),
+  });
+
+  const getUserMenuPanelProps = () => ({ id: userMenuId });
+
+  // Containers whose `data-roving-item` descendants share one tab stop
+  const getBarListProps = () => ({ ref: barListRef });
+
+  const getDrawerListProps = () => ({ ref: drawerListRef });
+
+  const getSearchTriggerProps = () => ({
+    type: "button" as const,
+    onClick: openPalette,
+    "aria-haspopup": "dialog" as const,
+    "aria-expanded": isPaletteOpen,
+    "aria-keyshortcuts": "Meta+K Control+K",
+    "aria-label": messages.searchLinks,
+  });
+
+  // In multipage mode the click is left to next/link; otherwise the default
+  // jump is replaced by the offset-aware scroll in handleLinkClick. New-tab
+  // clicks, external links and downloads go to the browser and only close
+  // the drawer. Disabled links lose their href and leave the tab order.
+  // aria-current marks the current item only; data-active includes parents.
+  // Stable until the active link or drawer state changes, so memoized link
+  // items don't re-render on unrelated updates; clicks read the latest
+  // handleLinkClick through a ref.
+  const handleLinkClickRef = useRef(handleLinkClick);
+  useEffect(() => {
+    handleLinkClickRef.current = handleLinkClick;
+  });
+
+  const getLinkProps = useCallback(
+    (
+      link: NavLink,
+      { onClick }: { onClick?: ClickHandler<HTMLAnchorElement> } = {},
+    ) => {
+      const isActive = isLinkActive(link, activeLink);
+      const { disabled } = link;
+      return {
+        href: disabled ? undefined : link.href,
+        role: disabled ? ("link" as const) : undefined,
+        "aria-disabled": disabled,
+        ...getNativeLinkAttributes(link),
+        onClick: (e: React.MouseEvent<HTMLAnchorElement>) => {
+          if (disabled) return e.preventDefault();
+          onClick?.(e);
+          if (isNativeLinkClick(e, link)) {
+            eventsRef.current.onLinkSelect?.(link.href);
+            if (isOpen) closeMenu();
+            return;
+          }
+          if (!isMultipage) e.preventDefault();
+          handleLinkClickRef.current(link.href);
+        },
+        "aria-current":
+          activeLink === link.href || activeLink === link.id
+            ? isMultipage
+              ? ("page" as const)
+              : ("location" as const)
+            : undefined,
+        "data-active": isActive || undefined,
+        "data-roving-item": disabled ? undefined : "",
+      };
+    },
+    [activeLink, isOpen, isMultipage, closeMenu],
+  );
+
+  return {
+    config: { ...resolvedConfig, side, zIndex },
+    instanceId,
+    getItemId,
+    portalTarget,
+    links: visibleLinks,
+    barLinks,
+    breakpointCss,
+    // Bottom tabs
+    hasTabBar,
+    tabLinks,
+    drawerLinks,
+    isTabBarHidden,
+    isMoreActive,
+    activeBreakpoints,
+    isDesktop,
+    isOpen,
+    isScrolled,
+    isHidden,
+    scrollDirection,
+    activeLink,
+    isLinkActive: (link: NavLink) => isLinkActive(link, activeLink),
+    duration,
+    prefersReducedMotion,
+    preferences,
+    resolvedColorScheme,
+    direction,
+    dirAttribute,
+    messages,
+    menuOrigin,
+    openMenu,
+    closeMenu,
+    handleLinkClick,
+    isSwipeDismiss,
+    isRoving,
+    // Dropdowns / accordions / drill-down
+    openDropdownId,
+    setOpenDropdownId,
+    toggleDropdown,
+    expandedIds,
+    toggleGroup,
+    drillDownLink,
+    setDrillDownId,
+    drillUp,
+    // User menu
+    user,
+    userMenu: visibleUserMenu,
+    isUserMenuOpen,
+    setUserMenuOpen,
+    selectUserAction,
+    // Command palette
+    isPaletteOpen,
+    openPalette,
+    closePalette,
+    selectPaletteLink,
+    recentHrefs,
+    paletteShortcut,
+    themeAttribute,
+    // Prop getters
+    getNavProps,
+    getToggleProps,
+    getTabBarProps,
+    getMoreTabProps,
+    getPanelProps,
+    getBackdropProps,
+    getCloseProps,
+    getLinkProps,
+    getSearchTriggerProps,
+    getBreakpointProps,
+    getBarListProps,
+    getDrawerListProps,
+    getUserMenuToggleProps,
+    getUserMenuPanelProps,
+  };
+};
+
+export type UseNavbarReturn = ReturnType<typeof useNavbar>;
@@ -0,0 +1,323 @@
+import { DEFAULT_NAVBAR_CONFIG } from "./config";
+import {
+  type Breakpoint,
+  type NavbarClassNames,
+  type NavbarConfig,
+  type NavLink,
+  type NavLinkContext,
+  type PhysicalSide,
+  type ResponsiveWidth,
+} from "./types";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Classes for a link-like element from the `classNames` slots
+export const linkClass = (classNames: NavbarClassNames, isActive: boolean) =>
+  [classNames.link, isActive && classNames.activeLink]
+    .filter(Boolean)
+    .join(" ");
+
+// Direct descendants of a link: dropdown children plus mega menu column links
+export const getChildLinks = (link: NavLink): NavLink[] => [
+  ...(link.children ?? []),
+  ...(link.megaMenu?.columns.flatMap((column) => column.links) ?? []),
+];
+
+// Flatten a nested link tree (parents first) for scroll spy
+export const flattenLinks = (links: NavLink[]): NavLink[] =>
+  links.flatMap((link) => [link, ...flattenLinks(getChildLinks(link))]);
+
+// Whether a link is shown in this context: its `visible` flag or predicate,
+// then its role (any) and permission (all) requirements
+export const isLinkVisible = (link: NavLink, context: NavLinkContext) => {
+  const { user } = context;
+  const visible =
+    typeof link.visible === "function"
+      ? link.visible(context)
+      : link.visible !== false;
+  const hasRole =
+    !link.roles?.length ||
+    link.roles.some((role) => user?.roles?.includes(role));
+  const hasPermissions =
+    !link.permissions?.length ||
+    link.permissions.every((permission) =>
+      user?.permissions?.includes(permission),
+    );
+  return visible && hasRole && hasPermissions;
+};
+
+// Drop links that aren't visible in this context, at every level (empty
+// mega menu columns go too)
+export const filterVisibleLinks = (
+  links: NavLink[],
+  context: NavLinkContext,
+): NavLink[] =>
+  links
+    .filter((link) => isLinkVisible(link, context))
+    .map((link) => ({
+      ...link,
+      children: link.children && filterVisibleLinks(link.children, context),
+      megaMenu: link.megaMenu && {
+        ...link.megaMenu,
+        columns: link.megaMenu.columns
+          .map((column) => ({
+            ...column,
+            links: filterVisibleLinks(column.links, context),
+          }))
+          .filter((column) => column.links.length),
+      },
+    }));
+
+// Links the browser handles itself: external, targeted (anything but
+// "_self") and downloads
+export const isNativeLink = (link: NavLink) =>
+  !!link.external ||
+  (!!link.target && link.target !== "_self") ||
+  !!link.download;
+
+// Anchor attributes of a link: external links default to a new tab with
+// rel="noopener noreferrer"; `download: true` becomes an empty attribute
+export const getNativeLinkAttributes = (link: NavLink) => ({
+  target: link.target ?? (link.external ? "_blank" : undefined),
+  rel: link.rel ?? (link.external ? "noopener noreferrer" : undefined),
+  download:
+    typeof link.download === "string"
+      ? link.download
+      : link.download
+        ? ""
+        : undefined,
+});
+
+// Follow a native link from code (the command palette) by clicking a real
+// anchor with its attributes, so targets, rel and downloads behave exactly
+// as a click on the link itself
+export const followNativeLink = (link: NavLink) => {
+  const { target, rel, download } = getNativeLinkAttributes(link);
+  const anchor = document.createElement("a");
+  anchor.href = link.href;
+  if (target) anchor.target = target;
+  if (rel) anchor.rel = rel;
+  if (download !== undefined) anchor.download = download;
+  anchor.hidden = true;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+};
+
+// Whether a click should be left to the browser: new tab/window (modifier
+// keys, non-primary button) or a native link
+export const isNativeLinkClick = (e: React.MouseEvent, link: NavLink) =>
+  e.button !== 0 ||
+  e.metaKey ||
+  e.ctrlKey ||
+  e.shiftKey ||
+  e.altKey ||
+  isNativeLink(link);
+
+// Up to two initials for an avatar without an image
+export const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0]?.toUpperCase())
+    .join("");
+
+// A link is active when it matches directly or any of its descendants does
+export const isLinkActive = (link: NavLink, activeLink: string): boolean =>
+  activeLink === link.href ||
+  activeLink === link.id ||
+  getChildLinks(link).some((child) => isLinkActive(child, activeLink));
+
+// Strip trailing slashes so "/about/" and "/about" compare equal
+export const normalizePath = (path: string) => path.replace(/(.)\/+$/, "$1");
+
+// Whether a link matches the current pathname (exact or prefix)
+export const matchesPathname = (link: NavLink, pathname: string) => {
+  const href = normalizePath(link.href);
+  const path = normalizePath(pathname);
+  if (link.match === "prefix") {
+    return path === href || path.startsWith(href === "/" ? "/" : `${href}/`);
+  }
+  return path === href;
+};
+
+// Most specific (longest href) link matching the pathname
+export const findRouteLink = (links: NavLink[], pathname: string) =>
+  flattenLinks(links)
+    .filter((link) => matchesPathname(link, pathname))
+    .sort((a, b) => b.href.length - a.href.length)[0];
+
+// Convert a breakpoint value to pixels for sorting (em/rem assume 16px)
+export const toPixels = (value: number | string) => {
+  if (typeof value === "number") return value;
+  const amount = parseFloat(value);
+  return /r?em$/.test(value.trim()) ? amount * 16 : amount;
+};
+
+// Resolve a breakpoint name, number or CSS length to a min-width media query
+export const toMinWidthQuery = (
+  breakpoint: Breakpoint,
+  breakpoints: Record<string, number | string>,
+) => {
+  const value = breakpoints[breakpoint] ?? breakpoint;
+  const length =
+    typeof value === "number" || /^\d+(\.\d+)?$/.test(value)
+      ? `${value}px`
+      : value;
+  return `(min-width: ${length})`;
+};
+
+// Media rules for one instance: parts marked "desktop" are hidden below the
+// query, parts marked "mobile" at/above it. Plain CSS, so the server HTML is
+// already laid out for the viewport before any script runs.
+export const toBreakpointCss = (instanceId: string, query: string) => {
+  const part = (name: string) =>
+    `[data-nav-instance="${instanceId}"][data-nav-breakpoint="${name}"]`;
+  return [
+    `@media not all and ${query} { ${part("desktop")} { display: none !important; } }`,
+    `@media ${query} { ${part("mobile")} { display: none !important; } }`,
+  ].join("\n");
+};
+
+// Breakpoints sorted ascending, each with its media query
+export const sortBreakpoints = (breakpoints: Record<string, number | string>) =>
+  Object.entries(breakpoints)
+    .sort(([, a], [, b]) => toPixels(a) - toPixels(b))
+    .map(([name, value]) => ({
+      name,
+      query: toMinWidthQuery(value, breakpoints),
+    }));
+
+// Pick the value for the largest active breakpoint, falling back to `base`
+export const resolveResponsive = (
+  value: string | ResponsiveWidth,
+  activeBreakpoints: string[],
+) => {
+  if (typeof value === "string") return value;
+  const match = [...activeBreakpoints]
+    .reverse()
+    .find((name) => value[name] !== undefined);
+  return match ? value[match] : value.base;
+};
+
+// Merge defaults, base config and overrides of every active breakpoint
+// Fields that are set: an explicit `undefined` (`side: cond ? "left" :
+// undefined`) keeps the default instead of overwriting it
+const definedFields = <T extends object>(fields: T) =>
+  Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+
+export const resolveConfig = (
+  config: NavbarConfig,
+  activeBreakpoints: string[],
+): Required<NavbarConfig> => ({
+  ...DEFAULT_NAVBAR_CONFIG,
+  ...definedFields(config),
+  ...activeBreakpoints.reduce<NavbarConfig>(
+    (merged, name) => ({
+      ...merged,
+      ...definedFields(config.responsive?.[name] ?? {}),
+    }),
+    {},
+  ),
+});
+
+// Pick the active section deterministically from the current layout:
+// - at the page bottom, the last section that is on screen
+// - otherwise the last section whose top has crossed the offset line
+// - above the first section, the one with the most visible height
+export const pickActiveSection = (elements: HTMLElement[], offset: number) => {
+  const viewportHeight = window.innerHeight;
+  const rects = elements.map((element) => ({
+    id: element.id,
+    rect: element.getBoundingClientRect(),
+  }));
+  const onScreen = rects.filter(
+    ({ rect }) => rect.bottom > offset && rect.top < viewportHeight,
+  );
+
+  const atBottom =
+    window.scrollY + viewportHeight >=
+    document.documentElement.scrollHeight - 2;
+  if (atBottom && onScreen.length) {
+    return onScreen.reduce((a, b) => (b.rect.top > a.rect.top ? b : a)).id;
+  }
+
+  const crossed = rects.filter(({ rect }) => rect.top <= offset + 1);
+  if (crossed.length) {
+    return crossed.reduce((a, b) => (b.rect.top > a.rect.top ? b : a)).id;
+  }
+
+  const visibleHeight = (rect: DOMRect) =>
+    Math.min(rect.bottom, viewportHeight) - Math.max(rect.top, offset);
+  return onScreen.length
+    ? onScreen.reduce((a, b) =>
+        visibleHeight(b.rect) > visibleHeight(a.rect) ? b : a,
+      ).id
+    : "";
+};
+
+// Fuzzy subsequence score of `query` in `text`, or null when some character
+// is missing; consecutive and word-start matches score higher
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s/#_-]/.test(haystack.charAt(index - 1))) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+
+  // Prefer shorter texts on ties
+  return score - haystack.length * 0.01;
+};
+
+// Search every link (nested ones included) by label, href and keywords,
+// best match first; labels win ties over hrefs and keywords
+export const searchLinks = (links: NavLink[], query: string) => {
+  const needle = query.replace(/\s+/g, "");
+  const unique = [
+    ...new Map(flattenLinks(links).map((link) => [link.id, link])).values(),
+  ];
+  if (!needle) return unique;
+
+  return unique
+    .map((link) => ({
+      link,
+      score: Math.max(
+        (fuzzyScore(needle, link.label) ?? -Infinity) + 1,
+        ...[link.href, ...(link.keywords ?? [])].map(
+          (text) => fuzzyScore(needle, text) ?? -Infinity,
+        ),
+      ),
+    }))
+    .filter(({ score }) => score > -Infinity)
+    .sort((a, b) => b.score - a.score)
+    .map(({ link }) => link);
+};
+
+// Component of a drag offset/velocity pointing towards the drawer's own
+// screen edge (positive = closing, negative = opening)
+export const towardsEdge = (
+  side: PhysicalSide,
+  point: { x: number; y: number },
+) =>
+  side === "left"
+    ? -point.x
+    : side === "right"
+      ? point.x
+      : side === "top"
+        ? -point.y
+        : point.y;
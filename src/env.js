@@ -16,7 +16,11 @@ export const env = createEnv({
    * `NEXT_PUBLIC_`.
    */
   client: {
-    // NEXT_PUBLIC_CLIENTVAR: z.string(),
+    // Microsoft Clarity project ID; analytics stay off while unset
+    NEXT_PUBLIC_CLARITY_PROJECT_ID: z
+      .string()
+      .regex(/^[a-z0-9]+$/, "Expected a Clarity project ID, e.g. abcd1234ef")
+      .optional(),
   },
 
   /**
@@ -25,7 +29,7 @@ export const env = createEnv({
    */
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
-    // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
+    NEXT_PUBLIC_CLARITY_PROJECT_ID: process.env.NEXT_PUBLIC_CLARITY_PROJECT_ID,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
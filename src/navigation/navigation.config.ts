@@ -0,0 +1,26 @@
+import {
+  parseNavigationConfig,
+  type NavigationConfig,
+} from "~/components/navbar/schema";
+import ar from "./ar.json";
+import de from "./de.json";
+import en from "./en.json";
+
+// ============================================================================
+// NAVIGATION CONFIG
+// ============================================================================
+
+// One file per locale. They are validated on import, like `src/env.js`:
+// `next build` loads this module while collecting page data, so a broken
+// file fails the build with every issue and its path listed.
+
+const EN = parseNavigationConfig(en, "src/navigation/en.json");
+
+const NAVIGATION: Record<string, NavigationConfig> = {
+  en: EN,
+  de: parseNavigationConfig(de, "src/navigation/de.json"),
+  ar: parseNavigationConfig(ar, "src/navigation/ar.json"),
+};
+
+// Navbar props for a locale, English when it has no file
+export const getNavigation = (locale: string) => NAVIGATION[locale] ?? EN;